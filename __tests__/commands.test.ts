@@ -0,0 +1,78 @@
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, test, expect, vi } from 'vitest';
+import { CommandLoadFailureReason, getCommands } from '../src/lib/FileParser.js';
+import { outputLoadFailures } from '../src/lib/LogCompiler.js';
+import { callFileParserNatively } from './native.js';
+
+const directory = mkdtempSync(join(tmpdir(), 'interactions-commands-'));
+function writeCommand(path: string, content: string) {
+	const filePath = join(directory, path);
+	mkdirSync(join(filePath, '..'), { recursive: true });
+	writeFileSync(filePath, content);
+	return filePath;
+}
+
+describe('Command Files', () => {
+	test('Modules', async () => {
+		const folder = join(directory, 'modules');
+		writeCommand('modules/shared.ts', "export const description: string = 'shared';");
+		writeCommand(
+			'modules/ping.ts',
+			"import { description } from './shared';\nexport default { name: 'ping', description };",
+		);
+		writeCommand('modules/echo.mts', "export default { name: 'echo', description: 'echo' } as const;");
+		writeCommand('modules/info.cts', "export = { name: 'info', description: 'info' };");
+		writeCommand('modules/types.d.ts', 'export declare const name: string;');
+		const { commands, failures } = await getCommands([folder], false, false);
+		expect(commands).toEqual([
+			{ name: 'echo', description: 'echo', type: 1 },
+			{ name: 'info', description: 'info', type: 1 },
+			{ name: 'ping', description: 'shared', type: 1 },
+		]);
+		// Files without a command, like shared.ts, are reported rather than deployed
+		expect(failures.map(({ path, reason }) => [path, reason])).toEqual([
+			[join(folder, 'shared.ts'), CommandLoadFailureReason.MissingExport],
+		]);
+
+		const launch = writeCommand('launch.mjs', "export default { name: 'launch', type: 4, handler: 1 };");
+		const echo = writeCommand('echo.mjs', "export const command = { name: 'echo', description: 'echo' };");
+		expect(callFileParserNatively('getCommands', [launch, echo], false, false)).toMatchObject({
+			commands: [{ name: 'launch', type: 4, handler: 1 }],
+			failures: [{ path: echo, reason: CommandLoadFailureReason.MissingExport }],
+		});
+	});
+	test('Load failures', async () => {
+		const folder = join(directory, 'failures');
+		writeCommand('failures/ping.json', JSON.stringify({ name: 'ping', description: 'pong' }));
+		writeCommand('failures/broken.json', '{ "name": ');
+		writeCommand('failures/broken.cjs', 'module.exports = {');
+		writeCommand('failures/empty.cjs', 'module.exports = {};');
+		writeCommand('failures/shape.cjs', "module.exports = { name: 'shape' };");
+		const missing = join(directory, 'missing.json');
+		const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const { commands, error, failures } = await getCommands([folder, missing], false, false);
+		expect(error).toBe(false);
+		expect(commands).toEqual([{ name: 'ping', description: 'pong', type: 1 }]);
+		expect(failures.map(({ path, reason }) => [path, reason])).toEqual([
+			[join(folder, 'broken.cjs'), CommandLoadFailureReason.SyntaxError],
+			[join(folder, 'broken.json'), CommandLoadFailureReason.SyntaxError],
+			[join(folder, 'empty.cjs'), CommandLoadFailureReason.MissingExport],
+			[join(folder, 'shape.cjs'), CommandLoadFailureReason.InvalidShape],
+			[missing, CommandLoadFailureReason.NotFound],
+		]);
+
+		const named = await getCommands([join(folder, 'shape.cjs')], false, false, 'command');
+		expect(named.error).toBe(true);
+		expect(named.failures[0]!.reason).toBe(CommandLoadFailureReason.MissingExport);
+
+		outputLoadFailures(failures, false);
+		expect(consoleError.mock.calls[1]![0]).toContain('5 command files failed to load and will not be deployed');
+		expect(consoleError.mock.calls[2]![0]).toContain('broken.cjs');
+		outputLoadFailures(failures.slice(2, 3), true);
+		expect(consoleError.mock.calls.at(-2)![0]).toContain('1 command file failed to load, aborting (strict mode)');
+		expect(consoleError.mock.calls.at(-1)![0]).toContain('empty.cjs');
+		consoleError.mockRestore();
+	});
+});
@@ -0,0 +1,164 @@
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import process from 'node:process';
+import { describe, test, expect } from 'vitest';
+import type { InteractionsDeployConfig } from '../src/bin/deploy-interactions.js';
+import {
+	applyProfile,
+	getStoredConfig,
+	interpolateConfig,
+	loadConfigFile,
+	resolveEnvKeys,
+	storeConfig,
+} from '../src/lib/FileParser.js';
+import { callFileParserNatively } from './native.js';
+
+const config: InteractionsDeployConfig = {
+	clientId: '1',
+	commands: ['dist/commands'],
+	commandDestinations: { global: [{ name: 'ping' }] },
+	prune: true,
+	profiles: {
+		staging: { clientId: '2', commandDestinations: { 3: [{ name: 'ping' }] }, prune: false },
+		production: {},
+	},
+};
+
+describe('Config Profiles', () => {
+	test('Profile settings replace base settings', () => {
+		expect(applyProfile(config, 'staging')).toEqual({
+			clientId: '2',
+			commands: ['dist/commands'],
+			commandDestinations: { 3: [{ name: 'ping' }] },
+			prune: false,
+		});
+		expect(applyProfile(config, 'production')).toEqual({
+			clientId: '1',
+			commands: ['dist/commands'],
+			commandDestinations: { global: [{ name: 'ping' }] },
+			prune: true,
+		});
+	});
+	test('Base settings without a profile', () => {
+		expect(applyProfile(config)).not.toHaveProperty('profiles');
+		expect(applyProfile(config).clientId).toBe('1');
+	});
+	test('Unknown profiles', () => {
+		expect(() => applyProfile(config, 'beta')).toThrow('The profile "beta" is not defined in the config');
+		expect(() => applyProfile({}, 'staging')).toThrow();
+	});
+});
+
+describe('Environment Variables', () => {
+	const env = { TOKEN: 'secret', GUILD: '3', EMPTY: '' };
+	test('Interpolation', () => {
+		expect(
+			interpolateConfig(
+				{
+					token: '${TOKEN}',
+					clientId: '${CLIENT_ID:-1}',
+					devGuildId: '${EMPTY:-2}',
+					commands: ['${COMMANDS_DIR:-dist}/commands'],
+					commandDestinations: { '${GUILD}': [{ name: 'ping' }] },
+				},
+				env,
+			),
+		).toEqual({
+			token: 'secret',
+			clientId: '1',
+			devGuildId: '2',
+			commands: ['dist/commands'],
+			commandDestinations: { 3: [{ name: 'ping' }] },
+		});
+	});
+	test('Unset variables', () => {
+		// Values only referencing unset variables are removed as if they were never set
+		expect(interpolateConfig({ token: '${MISSING}', clientId: '1' }, env)).toEqual({ clientId: '1' });
+		expect(interpolateConfig({ commandDestinations: { '${MISSING}': [{ name: 'ping' }] } }, env)).toEqual({
+			commandDestinations: {},
+		});
+		// Command definitions are never interpolated
+		const commandDefinitions = [{ name: 'echo', description: 'Echoes ${TOKEN}' }];
+		expect(interpolateConfig({ commandDefinitions }, env).commandDefinitions).toEqual(commandDefinitions);
+	});
+	test('Dedicated keys', () => {
+		expect(resolveEnvKeys({ clientIdEnv: 'GUILD', token: 'default', tokenEnv: 'TOKEN' }, env)).toMatchObject({
+			clientId: '3',
+			token: 'secret',
+		});
+		expect(resolveEnvKeys({ token: 'default', tokenEnv: 'MISSING' }, env).token).toBe('default');
+		expect(
+			resolveEnvKeys({ applications: [{ clientId: '1', tokenEnv: 'TOKEN' }, { clientId: '2' }] }, env).applications,
+		).toEqual([{ clientId: '1', token: 'secret', tokenEnv: 'TOKEN' }, { clientId: '2' }]);
+	});
+});
+
+describe('Config Files', () => {
+	const directory = mkdtempSync(join(tmpdir(), 'interactions-config-'));
+	function writeConfig(name: string, content: string) {
+		const path = join(directory, name);
+		writeFileSync(path, content);
+		return path;
+	}
+
+	test('YAML', async () => {
+		const path = writeConfig(
+			'interactions.config.yaml',
+			['clientId: "1"', 'commands:', '  - dist/commands', 'token: ${INTERACTIONS_TEST_MISSING}'].join('\n'),
+		);
+		await expect(loadConfigFile(path)).resolves.toEqual({ clientId: '1', commands: ['dist/commands'] });
+	});
+	test('Modules', async () => {
+		const commonPath = writeConfig('.interactionsrc.cjs', "module.exports = { clientId: '1' };");
+		await expect(loadConfigFile(commonPath)).resolves.toEqual({ clientId: '1' });
+		const factoryPath = writeConfig('interactions.config.cjs', "exports.default = async () => ({ clientId: '2' });");
+		await expect(loadConfigFile(factoryPath)).resolves.toEqual({ clientId: '2' });
+	});
+	test('ES modules and TypeScript', async () => {
+		const modulePath = writeConfig('.interactionsrc.mjs', "export default { clientId: '1' };");
+		const asyncFactoryPath = writeConfig('interactions.config.mjs', "export default async () => ({ clientId: '2' });");
+		expect(callFileParserNatively('loadConfigFile', modulePath)).toEqual({ clientId: '1' });
+		expect(callFileParserNatively('loadConfigFile', asyncFactoryPath)).toEqual({ clientId: '2' });
+		const typeScriptPath = writeConfig(
+			'interactions.config.ts',
+			"const config: { clientId: string; prune: boolean } = { clientId: '3', prune: true };\nexport default config;",
+		);
+		await expect(loadConfigFile(typeScriptPath)).resolves.toEqual({ clientId: '3', prune: true });
+	});
+	test('Storing configs with profiles', async () => {
+		const stored = await getStoredConfig(false, writeConfig('profiles.json', JSON.stringify(config)), 'staging');
+		expect(stored!.config).toMatchObject({ clientId: '2', prune: false });
+		// Only the settings changed since loading are written, over the base settings
+		const path = join(directory, 'stored.json');
+		expect(storeConfig({ ...stored!.config, concurrency: 2, dryRun: false }, path, stored)).toBe(true);
+		expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual({ ...config, concurrency: 2 });
+	});
+	test('Storing configs with environment variables', async () => {
+		const written = {
+			clientIdEnv: 'INTERACTIONS_TEST_CLIENT_ID',
+			commandDestinations: { '${INTERACTIONS_TEST_GUILD}': [{ name: 'ping' }] },
+			devGuildId: '${INTERACTIONS_TEST_GUILD:-2}',
+		};
+		process.env.INTERACTIONS_TEST_CLIENT_ID = '1';
+		process.env.INTERACTIONS_TEST_GUILD = '3';
+		const stored = await getStoredConfig(false, writeConfig('env.json', JSON.stringify(written)));
+		delete process.env.INTERACTIONS_TEST_CLIENT_ID;
+		delete process.env.INTERACTIONS_TEST_GUILD;
+		expect(stored!.config).toMatchObject({
+			clientId: '1',
+			commandDestinations: { 3: [{ name: 'ping' }] },
+			devGuildId: '3',
+		});
+		// The references are written rather than the values they resolved to
+		const path = join(directory, 'stored-env.json');
+		expect(storeConfig(stored!.config, path, stored)).toBe(true);
+		expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual(written);
+	});
+	test('Unsupported files', async () => {
+		await expect(loadConfigFile(writeConfig('config.toml', ''))).rejects.toThrow('not a supported file type');
+		await expect(loadConfigFile(writeConfig('empty.cjs', 'module.exports = 1;'))).rejects.toThrow(
+			'does not export a config object',
+		);
+	});
+});
@@ -0,0 +1,495 @@
+import { EventEmitter } from 'node:events';
+import { setTimeout } from 'node:timers';
+import type { RateLimitData, REST } from '@discordjs/rest';
+import {
+	type APIApplicationCommand,
+	type APIApplicationCommandPermission,
+	type APIGuildApplicationCommandPermissions,
+	ApplicationCommandPermissionType,
+	ApplicationCommandType,
+	type RESTPatchAPIApplicationCommandJSONBody,
+	type RESTPostAPIApplicationCommandsJSONBody,
+} from 'discord-api-types/v10';
+import { describe, test, expect, vi } from 'vitest';
+import {
+	type CommandMap,
+	deploy,
+	deployApplications,
+	Deployer,
+	type DeployerEvents,
+	type DeployResponse,
+} from '../src/lib/Deploy.js';
+import { ConfigurationError, ExitCode, getCombinedExitCode, getDeployExitCode } from '../src/lib/ExitCode.js';
+import { serializeApplicationResults, serializeCommandList, serializeResults } from '../src/lib/Serializer.js';
+
+const pingCommand = { name: 'ping', description: 'pong' };
+
+/**
+ * An in memory stand in for the commands endpoints of the API
+ */
+class FakeREST extends EventEmitter {
+	public readonly requests: string[] = [];
+
+	public readonly commands = new Map<string, APIApplicationCommand[]>();
+
+	/**
+	 * The permissions of each command, keyed by the route of the permissions of all commands in a guild
+	 */
+	public readonly permissions = new Map<string, APIGuildApplicationCommandPermissions[]>();
+
+	public rateLimitNext = false;
+
+	/**
+	 * The time in milliseconds to take responding to a GET on a route
+	 */
+	public readonly delays = new Map<string, number>();
+
+	/**
+	 * The error status to respond to a GET or DELETE on a route (or to the token exchange) with
+	 */
+	public readonly statuses = new Map<string, number>();
+
+	/**
+	 * The bodies of the PATCH requests, in order
+	 */
+	public readonly patches: RESTPatchAPIApplicationCommandJSONBody[] = [];
+
+	public token: string | null = null;
+
+	public inFlight = 0;
+
+	public maxInFlight = 0;
+
+	private nextId = 1;
+
+	public setToken(token: string) {
+		this.token = token;
+		return this;
+	}
+
+	public async get(route: string) {
+		this.requests.push(`GET ${route}`);
+		if (this.rateLimitNext) {
+			this.rateLimitNext = false;
+			this.emit('rateLimited', { route } as RateLimitData);
+		}
+
+		this.inFlight++;
+		this.maxInFlight = Math.max(this.inFlight, this.maxInFlight);
+		await new Promise((resolve) => {
+			setTimeout(resolve, this.delays.get(route) ?? 0);
+		});
+		this.inFlight--;
+		const status = this.statuses.get(route);
+		if (status) throw Object.assign(new Error(`${status}`), { status });
+
+		if (route.endsWith('/permissions')) return this.permissions.get(route) ?? [];
+		return this.commands.get(route) ?? [];
+	}
+
+	public async delete(route: string) {
+		this.requests.push(`DELETE ${route}`);
+		const status = this.statuses.get(route);
+		if (status) throw Object.assign(new Error(`${status}`), { status });
+		const id = route.split('/').pop();
+		const commandsRoute = route.slice(0, route.lastIndexOf('/'));
+		this.commands.set(
+			commandsRoute,
+			(this.commands.get(commandsRoute) ?? []).filter((command) => command.id !== id),
+		);
+	}
+
+	public async put(
+		route: string,
+		{
+			auth,
+			body,
+			headers,
+		}: { auth: boolean; body: { permissions: APIApplicationCommandPermission[] }; headers: Record<string, string> },
+	) {
+		this.requests.push(`PUT ${route} ${auth ? 'Bot' : headers.Authorization}`);
+		const [, , applicationId, , guildId, , id] = route.split('/');
+		const permissionsRoute = `/applications/${applicationId}/guilds/${guildId}/commands/permissions`;
+		const permissions = (this.permissions.get(permissionsRoute) ?? []).filter((existing) => existing.id !== id);
+		const result = { id: id!, application_id: applicationId!, guild_id: guildId!, permissions: body.permissions };
+		this.permissions.set(permissionsRoute, [...permissions, result]);
+		return result;
+	}
+
+	public async post(route: string, { body }: { body: RESTPostAPIApplicationCommandsJSONBody }) {
+		this.requests.push(`POST ${route}`);
+		if (route === '/oauth2/token') {
+			const status = this.statuses.get(route);
+			if (status) throw Object.assign(new Error(`${status}`), { status });
+			return {
+				access_token: 'bearer',
+				expires_in: 604_800,
+				scope: 'applications.commands.update',
+				token_type: 'Bearer',
+			};
+		}
+
+		const id = `${this.nextId++}`;
+		// Discord fills in the defaults of omitted fields
+		const command = {
+			default_member_permissions: null,
+			dm_permission: true,
+			...body,
+			id,
+			application_id: route.split('/')[2],
+			version: id,
+			type: body.type ?? ApplicationCommandType.ChatInput,
+		} as APIApplicationCommand;
+		this.commands.set(route, [...(this.commands.get(route) ?? []), command]);
+		return command;
+	}
+
+	public async patch(route: string, { body }: { body: RESTPatchAPIApplicationCommandJSONBody }) {
+		this.requests.push(`PATCH ${route}`);
+		this.patches.push(body);
+		const id = route.split('/').pop();
+		const commandsRoute = route.slice(0, route.lastIndexOf('/'));
+		const commands = this.commands.get(commandsRoute) ?? [];
+		const index = commands.findIndex((command) => command.id === id);
+		const command = { ...commands[index]!, ...body, version: `${this.nextId++}` } as APIApplicationCommand;
+		commands[index] = command;
+		return command;
+	}
+}
+
+function getGuildCommandMap(guildIds: string[]): CommandMap {
+	return new Map([
+		[ApplicationCommandType.ChatInput, [{ command: pingCommand, global: false, guildIds }]],
+	]) as CommandMap;
+}
+
+function getCommandMap(...commands: RESTPostAPIApplicationCommandsJSONBody[]): CommandMap {
+	return new Map([
+		[ApplicationCommandType.ChatInput, commands.map((command) => ({ command, global: true }))],
+	]) as CommandMap;
+}
+
+describe('Deployer', () => {
+	test('Deployers do not share state', async () => {
+		const firstRest = new FakeREST();
+		const secondRest = new FakeREST();
+		const first = new Deployer({ applicationId: '1', logger: { log() {} }, rest: firstRest as unknown as REST });
+		const second = new Deployer({ applicationId: '2', logger: { log() {} }, rest: secondRest as unknown as REST });
+		const [firstResult, secondResult] = await Promise.all([
+			first.deploy({ commands: getCommandMap(pingCommand) }),
+			second.deploy({ commands: getCommandMap(pingCommand) }),
+		]);
+		expect(firstRest.requests).toEqual(['GET /applications/1/commands', 'POST /applications/1/commands']);
+		expect(secondRest.requests).toEqual(['GET /applications/2/commands', 'POST /applications/2/commands']);
+		expect(firstResult!.global!.commands[0]!.application_id).toBe('1');
+		expect(secondResult!.global!.commands[0]!.application_id).toBe('2');
+	});
+	test('Up to date commands are skipped and planned as unchanged', async () => {
+		const rest = new FakeREST();
+		const deployer = new Deployer({ applicationId: '1', logger: { log() {} }, rest: rest as unknown as REST });
+		await deployer.deploy({ commands: getCommandMap(pingCommand) });
+		const result = await deployer.deploy({ commands: getCommandMap(pingCommand) });
+		expect(result!.global!.skipped.map((skipped) => skipped.name)).toEqual(['ping']);
+		const plan = await deployer.plan({ commands: getCommandMap(pingCommand, { name: 'echo', description: 'echo' }) });
+		expect(plan!.global!.unchanged.map((unchanged) => unchanged.name)).toEqual(['ping']);
+		expect(plan!.global!.created.map((created) => created.name)).toEqual(['echo']);
+	});
+	test('Progress is written to the logger', async () => {
+		const logger = { log: vi.fn() };
+		await new Deployer({ applicationId: '1', logger }).deploy({ commands: getCommandMap(pingCommand), dryRun: true });
+		expect(logger.log).toHaveBeenCalled();
+
+		const consoleLog = vi.spyOn(console, 'log').mockImplementation(() => {});
+		await deploy({ applicationId: '1', commands: getCommandMap(pingCommand), dryRun: true, silent: true });
+		expect(consoleLog).not.toHaveBeenCalled();
+		consoleLog.mockRestore();
+	});
+	test('Progress events', async () => {
+		const rest = new FakeREST();
+		const deployer = new Deployer({ applicationId: '1', logger: { log() {} }, rest: rest as unknown as REST });
+		await deployer.deploy({ commands: getCommandMap(pingCommand, { name: 'old', description: 'removed' }) });
+		const events: string[] = [];
+		for (const event of [
+			'destinationStart',
+			'commandSkipped',
+			'commandCreated',
+			'commandDeleted',
+			'destinationFinished',
+		] as const) {
+			deployer.on(event, (...[destination, data]: DeployerEvents[typeof event]) =>
+				events.push(`${event} ${destination} ${'name' in data ? data.name : ''}`),
+			);
+		}
+
+		const rateLimits: RateLimitData[] = [];
+		deployer.on('rateLimited', (rateLimitInfo) => rateLimits.push(rateLimitInfo));
+		rest.rateLimitNext = true;
+		await deployer.deploy({
+			commands: getCommandMap(pingCommand, { name: 'echo', description: 'echo' }),
+			prune: true,
+		});
+		expect(events).toEqual([
+			'destinationStart global ',
+			'commandSkipped global ping',
+			'commandCreated global echo',
+			'commandDeleted global old',
+			'destinationFinished global ',
+		]);
+		expect(rateLimits).toEqual([{ route: '/applications/1/commands' }]);
+		// Listeners are removed from the REST instance after each deploy
+		expect(rest.listenerCount('rateLimited')).toBe(0);
+
+		// Concurrent runs share a single listener, kept until the last one finishes
+		rest.delays.set('/applications/1/commands', 20);
+		const deploying = deployer.deploy({ commands: getCommandMap(pingCommand) });
+		const planning = deployer.plan({ commands: getGuildCommandMap(['2']) });
+		await planning;
+		expect(rest.listenerCount('rateLimited')).toBe(1);
+		rest.rateLimitNext = true;
+		await deployer.fetch(['2']);
+		await deploying;
+		expect(rateLimits).toHaveLength(2);
+		expect(rest.listenerCount('rateLimited')).toBe(0);
+	});
+	test('Updating changed commands', async () => {
+		const rest = new FakeREST();
+		const deployer = new Deployer({ applicationId: '1', logger: { log() {} }, rest: rest as unknown as REST });
+		await deployer.deploy({ commands: getCommandMap(pingCommand) });
+		const events: string[] = [];
+		deployer.on('commandUpdated', (...[destination, update]: DeployerEvents['commandUpdated']) =>
+			events.push(`${destination} ${update.name} ${update.result.version}`),
+		);
+		const result = await deployer.deploy({ commands: getCommandMap({ ...pingCommand, description: 'ping pong' }) });
+		// Only the changed fields are sent when editing the command in place
+		expect(rest.requests.slice(-2)).toEqual(['GET /applications/1/commands', 'PATCH /applications/1/commands/1']);
+		expect(rest.patches).toEqual([{ description: 'ping pong' }]);
+		expect(result!.global!.commands).toEqual([]);
+		expect(result!.global!.updated).toEqual([
+			{
+				name: 'ping',
+				command: { ...pingCommand, description: 'ping pong' },
+				existing: expect.objectContaining({ id: '1', description: 'pong', version: '1' }),
+				result: expect.objectContaining({ id: '1', description: 'ping pong', version: '2' }),
+				changes: [{ path: 'description', type: 'changed', oldValue: 'pong', newValue: 'ping pong' }],
+			},
+		]);
+		expect(events).toEqual(['global ping 2']);
+	});
+	test('Pruning destinations without commands', async () => {
+		const rest = new FakeREST();
+		const deployer = new Deployer({ applicationId: '1', logger: { log() {} }, rest: rest as unknown as REST });
+		await deployer.deploy({ commands: getCommandMap(pingCommand) });
+		await deployer.deploy({ commands: getGuildCommandMap(['2', '3']) });
+		// The global command moved to guild 2, guild 3 has no commands left
+		const plan = await deployer.plan({
+			commands: getGuildCommandMap(['2']),
+			prune: true,
+			pruneDestinations: ['global'],
+		});
+		expect(plan!.global!.remoteOnly.map((command) => command.id)).toEqual(['1']);
+		expect(plan!.guilds.has('3')).toBe(false);
+
+		rest.statuses.set('/applications/1/guilds/3/commands/3', 500);
+		const result = await deployer.deploy({
+			commands: getGuildCommandMap(['2']),
+			prune: true,
+			pruneDestinations: ['global', '3'],
+		});
+		expect(result!.global!.deleted.map((command) => command.id)).toEqual(['1']);
+		expect(result!.guilds.get('2')!.deleted).toEqual([]);
+		expect(result!.guilds.get('3')!.errored).toEqual([]);
+		const [failed] = result!.guilds.get('3')!.failedDeletes;
+		expect(failed!.existing.id).toBe('3');
+		expect(serializeResults(result!).guilds['3']!.failedDeletes).toEqual([
+			{ id: '3', name: 'ping', type: 1, version: '3', error: { code: null, message: '500', status: 500 } },
+		]);
+
+		// Destinations without commands are left alone when not pruning
+		rest.requests.length = 0;
+		await deployer.deploy({ commands: getGuildCommandMap(['2']), pruneDestinations: ['global', '3'] });
+		expect(rest.requests).toEqual(['GET /applications/1/guilds/2/commands']);
+	});
+	test('Concurrent guild deploys keep their order', async () => {
+		const rest = new FakeREST();
+		const guildIds = ['1', '2', '3', '4'];
+		// Later guilds finish first
+		for (const [index, guildId] of guildIds.entries()) {
+			rest.delays.set(`/applications/1/guilds/${guildId}/commands`, (guildIds.length - index) * 10);
+		}
+
+		const deployer = new Deployer({ applicationId: '1', logger: { log() {} }, rest: rest as unknown as REST });
+		const finished: string[] = [];
+		deployer.on('destinationFinished', (destination) => finished.push(destination));
+		const result = await deployer.deploy({ commands: getGuildCommandMap(guildIds), concurrency: 2 });
+		expect(rest.maxInFlight).toBe(2);
+		expect(finished).not.toEqual(guildIds);
+		expect([...result!.guilds.keys()]).toEqual(guildIds);
+		const plan = await deployer.plan({ commands: getGuildCommandMap(guildIds), concurrency: 4 });
+		expect(rest.maxInFlight).toBe(4);
+		expect([...plan!.guilds.keys()]).toEqual(guildIds);
+	});
+	test('Unauthorized errors stop starting new guild deploys', async () => {
+		const rest = new FakeREST();
+		rest.statuses.set('/applications/1/guilds/2/commands', 401);
+		const deployer = new Deployer({ applicationId: '1', logger: { log() {} }, rest: rest as unknown as REST });
+		const result = await deployer.deploy({ commands: getGuildCommandMap(['1', '2', '3', '4']), concurrency: 2 });
+		expect(result!.error).toMatchObject({ status: 401 });
+		expect([...result!.guilds.keys()]).toEqual(['1', '3']);
+		expect(rest.requests.some((request) => request.includes('/guilds/4/'))).toBe(false);
+	});
+	test('Deploying to several applications', async () => {
+		const mainRest = new FakeREST();
+		const betaRest = new FakeREST();
+		const results = await deployApplications([
+			{ applicationId: '1', commands: getCommandMap(pingCommand), rest: mainRest as unknown as REST, silent: true },
+			{ applicationId: '2', commands: getGuildCommandMap(['3']), rest: betaRest as unknown as REST, silent: true },
+		]);
+		expect([...results.keys()]).toEqual(['1', '2']);
+		expect(mainRest.requests).toEqual(['GET /applications/1/commands', 'POST /applications/1/commands']);
+		expect(betaRest.requests).toEqual([
+			'GET /applications/2/guilds/3/commands',
+			'POST /applications/2/guilds/3/commands',
+		]);
+		const json = serializeApplicationResults(results as Map<string, DeployResponse>);
+		expect(Object.keys(json.applications)).toEqual(['1', '2']);
+		expect(json.applications['1']!.global!.created[0]!.name).toBe('ping');
+		expect(json.applications['2']!.guilds['3']!.created[0]!.name).toBe('ping');
+		expect(getCombinedExitCode([ExitCode.Success, ExitCode.PartialFailure, ExitCode.PendingChanges])).toBe(
+			ExitCode.PartialFailure,
+		);
+
+		// An application failing to deploy does not stop the next ones
+		const permissionCommands: CommandMap = new Map();
+		permissionCommands.set(ApplicationCommandType.ChatInput, [
+			{ command: pingCommand, global: true, permissions: { 3: [] } },
+		]);
+		const partial = await deployApplications([
+			{ applicationId: '2', commands: permissionCommands, rest: betaRest as unknown as REST, silent: true },
+			{ applicationId: '1', commands: getCommandMap(pingCommand), rest: mainRest as unknown as REST, silent: true },
+		]);
+		expect(partial.get('2')!.error).toBeInstanceOf(ConfigurationError);
+		expect(getDeployExitCode(partial.get('2')!)).toBe(ExitCode.ConfigError);
+		expect(partial.get('1')!.global!.skipped[0]!.name).toBe('ping');
+	});
+	test('Client credentials', async () => {
+		const rest = new FakeREST();
+		const deployer = new Deployer({
+			applicationId: '1',
+			clientSecret: 'secret',
+			logger: { log() {} },
+			rest: rest as unknown as REST,
+		});
+		await deployer.deploy({ commands: getCommandMap(pingCommand), dryRun: true });
+		expect(rest.requests).toEqual([]);
+		await deployer.deploy({ commands: getCommandMap(pingCommand) });
+		await deployer.plan({ commands: getCommandMap(pingCommand) });
+		// The secret is only exchanged once
+		expect(rest.requests.filter((request) => request === 'POST /oauth2/token')).toHaveLength(1);
+		expect(rest.token).toBe('bearer');
+
+		// A rejected exchange halts like any other unauthorized request
+		const rejected = new FakeREST();
+		rejected.statuses.set('/oauth2/token', 401);
+		const unauthorized = new Deployer({
+			applicationId: '1',
+			clientSecret: 'invalid',
+			logger: { log() {} },
+			rest: rejected as unknown as REST,
+		});
+		const result = await unauthorized.deploy({ commands: getCommandMap(pingCommand) });
+		expect(result!.error).toMatchObject({ status: 401 });
+		expect(result!.guilds.size).toBe(0);
+		const plan = await unauthorized.plan({ commands: getCommandMap(pingCommand) });
+		expect(plan!.error).toMatchObject({ status: 401 });
+		await expect(unauthorized.fetch(['global'])).rejects.toMatchObject({ status: 401 });
+		expect(rejected.requests).toEqual(['POST /oauth2/token', 'POST /oauth2/token', 'POST /oauth2/token']);
+		expect(new Deployer({ applicationId: '1', bearerToken: 'bearer' }).rest.requestManager.options.authPrefix).toBe(
+			'Bearer',
+		);
+		expect(new Deployer({ applicationId: '1', token: 'bot' }).rest.requestManager.options.authPrefix).toBe('Bot');
+	});
+	test('Command permissions', async () => {
+		const rest = new FakeREST();
+		const permissions = [{ id: '10', type: ApplicationCommandPermissionType.Role, permission: true }];
+		const commands: CommandMap = new Map();
+		commands.set(ApplicationCommandType.ChatInput, [
+			{ command: pingCommand, global: false, guildIds: ['1'], permissions: { 1: permissions } },
+			{ command: { name: 'echo', description: 'echo' }, global: true, permissions: { 2: permissions, 3: [] } },
+		]);
+		await expect(
+			new Deployer({ applicationId: '1', rest: rest as unknown as REST }).deploy({ commands }),
+		).rejects.toThrow(new ConfigurationError('A permissions token is required to deploy command permissions'));
+		const deployer = new Deployer({
+			applicationId: '1',
+			logger: { log() {} },
+			permissionsToken: 'user',
+			rest: rest as unknown as REST,
+		});
+		const result = await deployer.deploy({ commands });
+		expect(rest.requests.filter((request) => request.startsWith('PUT'))).toEqual([
+			'PUT /applications/1/guilds/1/commands/2/permissions Bearer user',
+			'PUT /applications/1/guilds/2/commands/1/permissions Bearer user',
+		]);
+		expect(result!.guilds.get('1')!.permissions.map(({ name, status }) => `${name} ${status}`)).toEqual([
+			'ping updated',
+		]);
+		// Global commands have their permissions applied in every configured guild
+		expect(result!.global!.permissions.map(({ guildId, status }) => `${guildId} ${status}`)).toEqual([
+			'2 updated',
+			'3 skipped',
+		]);
+
+		const redeployed = await deployer.deploy({ commands });
+		expect(redeployed!.global!.permissions.every(({ status }) => status === 'skipped')).toBe(true);
+		expect(redeployed!.guilds.get('1')!.permissions[0]!.previous).toEqual(permissions);
+		// Dry runs do not need a permissions token as nothing is deployed
+		const dryRun = await new Deployer({ applicationId: '1', logger: { log() {} } }).deploy({ commands, dryRun: true });
+		expect(dryRun!.global!.permissions).toEqual([]);
+	});
+	test('Primary entry point commands', async () => {
+		const rest = new FakeREST();
+		const deployer = new Deployer({ applicationId: '1', logger: { log() {} }, rest: rest as unknown as REST });
+		const launch = { name: 'launch', type: ApplicationCommandType.PrimaryEntryPoint, handler: 2 } as const;
+		const commands = new Map([
+			[ApplicationCommandType.ChatInput, [{ command: pingCommand, global: true }]],
+			[ApplicationCommandType.PrimaryEntryPoint, [{ command: launch, global: true }]],
+		]) as CommandMap;
+		const result = await deployer.deploy({ commands });
+		expect(result!.global!.commands.map((command) => command.type)).toEqual([
+			ApplicationCommandType.ChatInput,
+			ApplicationCommandType.PrimaryEntryPoint,
+		]);
+		commands.set(ApplicationCommandType.PrimaryEntryPoint, [{ command: { ...launch, handler: 1 }, global: true }]);
+		const plan = await deployer.plan({ commands });
+		expect(plan!.global!.updated.map((updated) => updated.changes)).toEqual([
+			[{ path: 'handler', type: 'changed', oldValue: 2, newValue: 1 }],
+		]);
+	});
+	test('Global only definitions', async () => {
+		const rest = new FakeREST();
+		const deployer = new Deployer({ applicationId: '1', logger: { log() {} }, rest: rest as unknown as REST });
+		const globalCommand = { ...pingCommand, integration_types: [0, 1], contexts: [0, 1, 2] };
+		const commands = new Map([
+			[ApplicationCommandType.ChatInput, [{ command: pingCommand, global: true, globalCommand, guildIds: ['2'] }]],
+		]) as CommandMap;
+		const result = await deployer.deploy({ commands });
+		expect(result!.global!.commands[0]).toMatchObject({ integration_types: [0, 1], contexts: [0, 1, 2] });
+		expect(result!.guilds.get('2')!.commands[0]).not.toHaveProperty('integration_types');
+		expect(result!.guilds.get('2')!.commands[0]).not.toHaveProperty('contexts');
+	});
+	test('Fetching deployed commands', async () => {
+		const rest = new FakeREST();
+		const deployer = new Deployer({ applicationId: '1', logger: { log() {} }, rest: rest as unknown as REST });
+		await deployer.deploy({ commands: getCommandMap(pingCommand) });
+		const fetched = await deployer.fetch(['global', '2']);
+		expect([...fetched.keys()]).toEqual(['global', '2']);
+		expect(fetched.get('global')!.map((command) => command.name)).toEqual(['ping']);
+		expect(fetched.get('2')).toEqual([]);
+		expect(rest.requests.slice(-2)).toEqual(['GET /applications/1/commands', 'GET /applications/1/guilds/2/commands']);
+
+		const json = serializeCommandList(fetched);
+		expect(json.global!.map((command) => command.name)).toEqual(['ping']);
+		expect(json.guilds).toEqual({ '2': [] });
+		expect(serializeCommandList(new Map([['2', []]])).global).toBeNull();
+	});
+});
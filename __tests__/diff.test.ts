@@ -0,0 +1,189 @@
+import type {
+	APIApplicationCommand,
+	APIApplicationCommandChannelOption,
+	APIApplicationCommandIntegerOption,
+	APIApplicationCommandOptionChoice,
+	APIApplicationCommandStringOption,
+	APIApplicationCommandSubcommandGroupOption,
+	APIApplicationCommandSubcommandOption,
+	RESTPostAPIChatInputApplicationCommandsJSONBody,
+} from 'discord-api-types/v10';
+import { describe, test, expect } from 'vitest';
+import { CommandChangeType, commandEquals, diffCommand, getCommandPatch } from '../src/lib/Diff.js';
+
+const receivedCommand: APIApplicationCommand = {
+	id: '828935534738669580',
+	application_id: '778562519022698507',
+	name: 'test',
+	description: 'various tests',
+	version: '828935534738669581',
+	default_member_permissions: null,
+	dm_permission: true,
+	type: 1,
+	options: [
+		{ type: 3, name: 'string', description: 'the argument' },
+		{ type: 4, name: 'int', description: 'the argument', min_value: 0, max_value: 100 },
+		{
+			type: 3,
+			name: 'choices',
+			description: 'the string choices',
+			choices: [
+				{ name: 'filled', value: 'filled' },
+				{ name: 'empty', value: '' },
+			],
+		},
+		{
+			type: 2,
+			name: 'group',
+			description: 'a subcommand group',
+			options: [
+				{
+					type: 1,
+					name: 'subcommand',
+					description: 'a subcommand',
+					options: [{ type: 7, name: 'channel', description: 'the channel', channel_types: [0, 2] }],
+				},
+			],
+		},
+	],
+};
+
+const sentCommand: RESTPostAPIChatInputApplicationCommandsJSONBody = {
+	name: 'test',
+	description: 'various tests',
+	options: structuredClone(receivedCommand.options),
+};
+
+/**
+ * The options of the sent command, in order
+ */
+type SentOptions = [
+	APIApplicationCommandStringOption,
+	APIApplicationCommandIntegerOption,
+	APIApplicationCommandStringOption & { choices: APIApplicationCommandOptionChoice<string>[] },
+	APIApplicationCommandSubcommandGroupOption & {
+		options: (APIApplicationCommandSubcommandOption & { options: APIApplicationCommandChannelOption[] })[];
+	},
+];
+
+function cloneSent() {
+	return structuredClone(sentCommand) as RESTPostAPIChatInputApplicationCommandsJSONBody & { options: SentOptions };
+}
+
+describe('Application Command Diff', () => {
+	test('Matching commands have no changes', () => {
+		expect(diffCommand(receivedCommand, sentCommand)).toEqual([]);
+		expect(diffCommand(receivedCommand, { ...sentCommand, type: 1, dm_permission: true })).toEqual([]);
+		expect(
+			diffCommand({ ...receivedCommand, guild_id: '828935534738669582' }, { ...sentCommand, dm_permission: false }),
+		).toEqual([]);
+	});
+	test('Top level changes', () => {
+		expect(diffCommand(receivedCommand, { ...sentCommand, description: 'another description' })).toEqual([
+			{
+				path: 'description',
+				type: CommandChangeType.Changed,
+				oldValue: 'various tests',
+				newValue: 'another description',
+			},
+		]);
+		expect(diffCommand(receivedCommand, { ...sentCommand, name_localizations: { fr: 'essai' } })).toEqual([
+			{ path: 'name_localizations.fr', type: CommandChangeType.Added, oldValue: undefined, newValue: 'essai' },
+		]);
+		expect(diffCommand(receivedCommand, { ...sentCommand, default_member_permissions: '8' })).toEqual([
+			{ path: 'default_member_permissions', type: CommandChangeType.Changed, oldValue: null, newValue: '8' },
+		]);
+	});
+	test('Option changes', () => {
+		let command = cloneSent();
+		command.options[2].choices[1]!.value = 'empty';
+		expect(diffCommand(receivedCommand, command)).toEqual([
+			{ path: 'options[2].choices[1].value', type: CommandChangeType.Changed, oldValue: '', newValue: 'empty' },
+		]);
+
+		command = cloneSent();
+		delete command.options[1].max_value;
+		command.options[0].required = true;
+		expect(diffCommand(receivedCommand, command)).toEqual([
+			{ path: 'options[0].required', type: CommandChangeType.Changed, oldValue: false, newValue: true },
+			{ path: 'options[1].max_value', type: CommandChangeType.Removed, oldValue: 100, newValue: undefined },
+		]);
+
+		command = cloneSent();
+		const removed = command.options.shift();
+		expect(diffCommand(receivedCommand, command)).toEqual([
+			{ path: 'options[0]', type: CommandChangeType.Removed, oldValue: removed, newValue: undefined },
+		]);
+	});
+	test('Integration types and contexts', () => {
+		expect(diffCommand(receivedCommand, { ...sentCommand, integration_types: [0], contexts: [2, 0, 1] })).toEqual([]);
+		expect(diffCommand(receivedCommand, { ...sentCommand, integration_types: [1, 0], contexts: [0] })).toEqual([
+			{ path: 'integration_types', type: CommandChangeType.Changed, oldValue: [0], newValue: [0, 1] },
+			{ path: 'contexts', type: CommandChangeType.Changed, oldValue: [0, 1, 2], newValue: [0] },
+		]);
+		expect(
+			diffCommand({ ...receivedCommand, guild_id: '828935534738669582' }, { ...sentCommand, integration_types: [1] }),
+		).toEqual([]);
+	});
+	test('Order changes', () => {
+		let command = cloneSent();
+		command.options.reverse();
+		expect(diffCommand(receivedCommand, command)).toEqual([
+			{
+				path: 'options',
+				type: CommandChangeType.Changed,
+				oldValue: ['string', 'int', 'choices', 'group'],
+				newValue: ['group', 'choices', 'int', 'string'],
+			},
+		]);
+
+		command = cloneSent();
+		command.options[2].choices.reverse();
+		expect(diffCommand(receivedCommand, command)).toEqual([
+			{
+				path: 'options[2].choices',
+				type: CommandChangeType.Changed,
+				oldValue: ['filled', 'empty'],
+				newValue: ['empty', 'filled'],
+			},
+		]);
+
+		// Removing an option does not change the order of the others
+		command = cloneSent();
+		command.options.splice(1, 1);
+		expect(diffCommand(receivedCommand, command).map((change) => change.path)).toEqual(['options[1]']);
+	});
+	test('Nested option changes', () => {
+		let command = cloneSent();
+		command.options[3].options[0]!.options[0]!.channel_types = [2, 0];
+		expect(diffCommand(receivedCommand, command)).toEqual([]);
+
+		command = cloneSent();
+		command.options[3].options[0]!.options[0]!.channel_types = [0];
+		expect(diffCommand(receivedCommand, command)).toEqual([
+			{
+				path: 'options[3].options[0].options[0].channel_types',
+				type: CommandChangeType.Changed,
+				oldValue: [0, 2],
+				newValue: [0],
+			},
+		]);
+	});
+	test('Equality and patches follow the diff', () => {
+		// Discord may omit dm_permission, which defaults to true
+		const { dm_permission, ...withoutPermission } = receivedCommand;
+		expect(commandEquals(withoutPermission, sentCommand)).toBe(true);
+		expect(getCommandPatch(withoutPermission, sentCommand)).toEqual({});
+
+		const command = cloneSent();
+		command.options[2].choices.reverse();
+		expect(commandEquals(receivedCommand, command)).toBe(false);
+		expect(getCommandPatch(receivedCommand, command)).toEqual({ options: command.options });
+		expect(getCommandPatch(receivedCommand, { ...sentCommand, description_localizations: { fr: 'essais' } })).toEqual({
+			description_localizations: { fr: 'essais' },
+		});
+		expect(getCommandPatch({ ...receivedCommand, dm_permission: false }, sentCommand)).toEqual({
+			dm_permission: true,
+		});
+	});
+});
@@ -0,0 +1,113 @@
+import type { APIApplicationCommand } from 'discord-api-types/v10';
+import { describe, test, expect } from 'vitest';
+import type {
+	CommandPermissionsResult,
+	DeployPlan,
+	SingleDeployPlan,
+	SingleDeployResponse,
+} from '../src/lib/Deploy.js';
+import {
+	ConfigurationError,
+	ExitCode,
+	getCombinedExitCode,
+	getDeployExitCode,
+	getErrorExitCode,
+	getPlanExitCode,
+} from '../src/lib/ExitCode.js';
+
+const pingCommand = { name: 'ping', description: 'pong' };
+
+const existingCommand: APIApplicationCommand = {
+	id: '828935534738669580',
+	application_id: '778562519022698507',
+	name: 'ping',
+	description: 'pong',
+	version: '828935534738669581',
+	default_member_permissions: null,
+	type: 1,
+};
+
+const error = Object.assign(new Error('Internal Server Error'), { status: 500 }) as never;
+
+function getResult(result: Partial<SingleDeployResponse> = {}): SingleDeployResponse {
+	return {
+		commands: [],
+		deleted: [],
+		errored: [],
+		failedDeletes: [],
+		permissions: [],
+		skipped: [],
+		updated: [],
+		...result,
+	};
+}
+
+function getPlan(global: Partial<SingleDeployPlan> = {}, prune = false): DeployPlan {
+	return { global: { created: [], remoteOnly: [], unchanged: [], updated: [], ...global }, guilds: new Map(), prune };
+}
+
+describe('Exit Codes', () => {
+	test('Deploy results', () => {
+		expect(getDeployExitCode({ global: getResult({ commands: [existingCommand] }), guilds: new Map() })).toBe(
+			ExitCode.Success,
+		);
+		expect(
+			getDeployExitCode({
+				guilds: new Map([
+					['1', getResult({ errored: [{ name: 'ping', command: { name: 'ping', description: 'pong' }, error }] })],
+				]),
+			}),
+		).toBe(ExitCode.PartialFailure);
+		expect(
+			getDeployExitCode({
+				guilds: new Map([['1', getResult({ failedDeletes: [{ name: 'ping', existing: existingCommand, error }] })]]),
+			}),
+		).toBe(ExitCode.PartialFailure);
+		expect(getDeployExitCode({ global: getResult({ bulkError: error }), guilds: new Map() })).toBe(
+			ExitCode.PartialFailure,
+		);
+		const permissions: CommandPermissionsResult = {
+			commandId: existingCommand.id,
+			error,
+			guildId: '1',
+			name: 'ping',
+			permissions: [],
+			previous: [],
+			status: 'errored',
+			type: 1,
+		};
+		expect(getDeployExitCode({ global: getResult({ permissions: [permissions] }), guilds: new Map() })).toBe(
+			ExitCode.PartialFailure,
+		);
+		expect(getDeployExitCode({ error, guilds: new Map([['1', getResult()]]) })).toBe(ExitCode.FatalError);
+	});
+	test('Plans and failing on changes', () => {
+		const created = getPlan({ created: [pingCommand] });
+		expect(getPlanExitCode(created, false)).toBe(ExitCode.Success);
+		expect(getPlanExitCode(created, true)).toBe(ExitCode.PendingChanges);
+		expect(
+			getPlanExitCode(
+				getPlan({ updated: [{ name: 'ping', changes: [], command: pingCommand, existing: existingCommand }] }),
+				true,
+			),
+		).toBe(ExitCode.PendingChanges);
+		expect(getPlanExitCode(getPlan({ unchanged: [{ name: 'ping', command: pingCommand }] }), true)).toBe(
+			ExitCode.Success,
+		);
+		// Remote only commands are only deleted when pruning
+		expect(getPlanExitCode(getPlan({ remoteOnly: [existingCommand] }), true)).toBe(ExitCode.Success);
+		expect(getPlanExitCode(getPlan({ remoteOnly: [existingCommand] }, true), true)).toBe(ExitCode.PendingChanges);
+		expect(getPlanExitCode({ ...created, guilds: new Map([['1', { ...getPlan().global!, error }]]) }, true)).toBe(
+			ExitCode.PartialFailure,
+		);
+		expect(getPlanExitCode({ ...created, error }, true)).toBe(ExitCode.FatalError);
+	});
+	test('Errors', () => {
+		expect(getErrorExitCode(new ConfigurationError('Input required'))).toBe(ExitCode.ConfigError);
+		expect(getErrorExitCode(new Error('Unexpected'))).toBe(ExitCode.FatalError);
+		expect(getCombinedExitCode([ExitCode.PendingChanges, ExitCode.ConfigError, ExitCode.Success])).toBe(
+			ExitCode.ConfigError,
+		);
+		expect(getCombinedExitCode([])).toBe(ExitCode.Success);
+	});
+});
@@ -0,0 +1,107 @@
+import { mkdirSync, mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, test, expect, vi } from 'vitest';
+import { getCommands } from '../src/lib/FileParser.js';
+import { expandGlob, globToRegExp, isGlob, normalizePath, walkFolder } from '../src/lib/Glob.js';
+
+const directory = normalizePath(mkdtempSync(join(tmpdir(), 'interactions-glob-')));
+const files = {
+	'commands/ping.json': 'ping',
+	'commands/admin/ban.json': 'ban',
+	'commands/admin/deep/kick.json': 'kick',
+	'commands/admin/ban.test.json': 'ban-test',
+	'commands/node_modules/dependency.json': 'dependency',
+	'commands/user/info.json': 'info',
+};
+for (const [path, name] of Object.entries(files)) {
+	mkdirSync(join(directory, path, '..'), { recursive: true });
+	writeFileSync(join(directory, path), JSON.stringify({ name, description: name }));
+}
+
+describe('Glob Patterns', () => {
+	test('Glob detection', () => {
+		expect(isGlob('src/commands')).toBe(false);
+		expect(isGlob('src/commands/ping.js')).toBe(false);
+		expect(isGlob('src/commands/**/*.js')).toBe(true);
+		expect(isGlob('src/commands/{admin,user}')).toBe(true);
+		expect(isGlob('!**/*.test.js')).toBe(true);
+	});
+	test('Path normalization', () => {
+		expect(normalizePath('./src/commands/ping.js')).toBe('src/commands/ping.js');
+		expect(normalizePath('src\\commands\\ping.js')).toBe('src/commands/ping.js');
+	});
+	test('Single segment wildcards', () => {
+		const matcher = globToRegExp('src/commands/*.js');
+		expect(matcher.test('src/commands/ping.js')).toBe(true);
+		expect(matcher.test('src/commands/admin/ban.js')).toBe(false);
+		expect(matcher.test('src/commands/ping.cjs')).toBe(false);
+		expect(globToRegExp('src/command?.js').test('src/commands.js')).toBe(true);
+		expect(globToRegExp('src/command?.js').test('src/command/.js')).toBe(false);
+	});
+	test('Globstar', () => {
+		const matcher = globToRegExp('./src/commands/**/*.js');
+		expect(matcher.test('src/commands/ping.js')).toBe(true);
+		expect(matcher.test('src/commands/admin/ban.js')).toBe(true);
+		expect(matcher.test('src/commands/admin/deep/ban.js')).toBe(true);
+		expect(matcher.test('src/other/ping.js')).toBe(false);
+		expect(globToRegExp('**/*.test.js').test('src/commands/ping.test.js')).toBe(true);
+		expect(globToRegExp('**/*.test.js').test('ping.test.js')).toBe(true);
+		expect(globToRegExp('**/*.test.js').test('src/commands/ping.js')).toBe(false);
+	});
+	test('Braces and classes', () => {
+		const matcher = globToRegExp('src/{admin,user}/*.{js,ts}');
+		expect(matcher.test('src/admin/ban.js')).toBe(true);
+		expect(matcher.test('src/user/info.ts')).toBe(true);
+		expect(matcher.test('src/other/info.ts')).toBe(false);
+		expect(matcher.test('src/admin/ban.json')).toBe(false);
+		expect(globToRegExp('v[0-9].js').test('v1.js')).toBe(true);
+		expect(globToRegExp('v[!0-9].js').test('v1.js')).toBe(false);
+		expect(globToRegExp('v[!0-9].js').test('va.js')).toBe(true);
+	});
+	test('Nested folders', () => {
+		const commands = `${directory}/commands`;
+		expect(new Set(walkFolder(commands))).toEqual(
+			new Set([
+				`${commands}/admin/ban.json`,
+				`${commands}/admin/ban.test.json`,
+				`${commands}/admin/deep/kick.json`,
+				`${commands}/ping.json`,
+				`${commands}/user/info.json`,
+			]),
+		);
+		expect(expandGlob(`${commands}/**/*.json`)).toHaveLength(5);
+		expect(new Set(expandGlob(`${commands}/admin/*.json`))).toEqual(
+			new Set([`${commands}/admin/ban.json`, `${commands}/admin/ban.test.json`]),
+		);
+		expect(expandGlob(`${commands}/{user,missing}/*.json`)).toEqual([`${commands}/user/info.json`]);
+		expect(expandGlob(`${directory}/missing/**/*.json`)).toEqual([]);
+	});
+	test('Exclusions across paths', async () => {
+		const commands = `${directory}/commands`;
+		const { commands: found, finalCommands } = await getCommands(
+			[
+				`${commands}/*.json`,
+				'!**/*.test.json',
+				{ path: `${commands}/admin/**/*.json`, destinations: { global: false, guildIds: ['1'] } },
+				`${commands}/user`,
+				`!${commands}/admin/deep/**`,
+			],
+			false,
+			false,
+		);
+		expect(found!.map((command) => command.name)).toEqual(['ping', 'info']);
+		expect(finalCommands!.map(({ command, guildIds }) => [command.name, guildIds])).toEqual([['ban', ['1']]]);
+	});
+	test('Exclusions with destinations', async () => {
+		const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const { error } = await getCommands(
+			[`${directory}/commands/*.json`, { path: '!**/ping.json', destinations: { global: false, guildIds: ['1'] } }],
+			false,
+			false,
+		);
+		expect(error).toBe(true);
+		expect(consoleError.mock.calls[0]![0]).toContain('!**/ping.json cannot be an exclusion');
+		consoleError.mockRestore();
+	});
+});
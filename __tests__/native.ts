@@ -0,0 +1,37 @@
+import { execFileSync } from 'node:child_process';
+import { join } from 'node:path';
+import process from 'node:process';
+
+/**
+ * Calls a function exported by FileParser in a separate node process and returns its JSON encoded result.
+ * Vitest evaluates the sources in a vm context where the native import() used for ES modules is unavailable,
+ * so the sources are transpiled on require instead, like the TypeScript loader does
+ *
+ * @param name - The name of the exported function
+ * @param args - The JSON encodable arguments of the function
+ */
+export function callFileParserNatively(name: string, ...args: unknown[]): unknown {
+	const script = `
+const Module = require('node:module');
+const { readFileSync } = require('node:fs');
+const ts = require('typescript');
+const resolveFilename = Module._resolveFilename;
+// The sources import each other with the extension of their compiled output
+Module._resolveFilename = function (request, ...args) {
+	try {
+		return resolveFilename.call(this, request, ...args);
+	} catch (error) {
+		if (!request.endsWith('.js')) throw error;
+		return resolveFilename.call(this, request.replace(/\\.js$/, '.ts'), ...args);
+	}
+};
+require.extensions['.ts'] = (module, filename) => {
+	const compilerOptions = { esModuleInterop: true, module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022 };
+	module._compile(ts.transpileModule(readFileSync(filename, 'utf8'), { compilerOptions }).outputText, filename);
+};
+Promise.resolve(require(${JSON.stringify(join(__dirname, '../src/lib/FileParser.ts'))})[${JSON.stringify(name)}](
+	...${JSON.stringify(args)}
+)).then((result) => console.log(JSON.stringify(result)));
+`;
+	return JSON.parse(execFileSync(process.execPath, ['-e', script], { encoding: 'utf8' }));
+}
@@ -0,0 +1,107 @@
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { APIApplicationCommand } from 'discord-api-types/v10';
+import { describe, test, expect } from 'vitest';
+import { getCommandFileName, normalizeCommand, pullCommands, writeCommandFiles } from '../src/lib/Pull.js';
+import { commandEquals } from '../src/lib/Diff.js';
+
+const receivedChatCommand: APIApplicationCommand = {
+	id: '828935534738669580',
+	application_id: '778562519022698507',
+	name: 'test',
+	description: 'various tests',
+	version: '828935534738669581',
+	default_member_permissions: null,
+	dm_permission: true,
+	nsfw: false,
+	integration_types: [0],
+	contexts: null,
+	type: 1,
+	name_localizations: null,
+	description_localizations: { fr: 'divers essais' },
+	options: [
+		{
+			type: 3,
+			name: 'string',
+			description: 'the argument',
+			required: false,
+			autocomplete: false,
+			name_localizations: null,
+			description_localizations: null,
+			choices: [{ name: 'one', value: '1', name_localizations: null } as never],
+		},
+	],
+};
+
+const receivedUserCommand: APIApplicationCommand = {
+	id: '876998546929352734',
+	application_id: '778562519022698507',
+	name: 'Report User',
+	description: '',
+	version: '877002955285491742',
+	default_member_permissions: '8',
+	dm_permission: false,
+	integration_types: [0, 1],
+	contexts: [0],
+	type: 2,
+};
+
+describe('Pulling Commands', () => {
+	test('Normalization', () => {
+		expect(normalizeCommand(receivedChatCommand)).toEqual({
+			name: 'test',
+			description: 'various tests',
+			type: 1,
+			description_localizations: { fr: 'divers essais' },
+			options: [{ type: 3, name: 'string', description: 'the argument', choices: [{ name: 'one', value: '1' }] }],
+		});
+		expect(normalizeCommand(receivedUserCommand)).toEqual({
+			name: 'Report User',
+			default_member_permissions: '8',
+			dm_permission: false,
+			integration_types: [0, 1],
+			contexts: [0],
+			type: 2,
+		});
+	});
+	test('Pulled definitions match the deployed commands', () => {
+		expect(commandEquals(receivedChatCommand, normalizeCommand(receivedChatCommand))).toBe(true);
+		expect(commandEquals(receivedUserCommand, normalizeCommand(receivedUserCommand))).toBe(true);
+	});
+	test('Destinations', () => {
+		const guildCommand = { ...receivedChatCommand, id: '1', guild_id: '828935534738669582' };
+		const changedCommand = { ...guildCommand, description: 'changed' };
+		const pulled = pullCommands(
+			new Map([
+				['global', [receivedChatCommand, receivedUserCommand]],
+				['828935534738669582', [guildCommand]],
+				['828935534738669583', [changedCommand]],
+			]),
+		);
+		expect(pulled.definitions.map((definition) => definition.name)).toEqual(['test', 'Report User']);
+		expect(pulled.destinations).toEqual({
+			global: [
+				{ name: 'test', type: 1 },
+				{ name: 'Report User', type: 2 },
+			],
+			'828935534738669582': [{ name: 'test', type: 1 }],
+			'828935534738669583': [],
+		});
+		expect(pulled.conflicts).toEqual([{ kept: 'global', name: 'test', skipped: '828935534738669583', type: 1 }]);
+	});
+	test('Files', () => {
+		expect(getCommandFileName(normalizeCommand(receivedChatCommand), 'json')).toBe('test.json');
+		expect(getCommandFileName(normalizeCommand(receivedUserCommand), 'js')).toBe('Report-User.user.js');
+
+		const folder = join(mkdtempSync(join(tmpdir(), 'interactions-pull-')), 'commands');
+		const definitions = [normalizeCommand(receivedChatCommand)];
+		expect(writeCommandFiles(folder, definitions, 'json', false).written).toEqual([join(folder, 'test.json')]);
+		expect(JSON.parse(readFileSync(join(folder, 'test.json'), 'utf8'))).toEqual(definitions[0]);
+		writeFileSync(join(folder, 'test.json'), '{}');
+		expect(writeCommandFiles(folder, definitions, 'json', false).skipped).toEqual([join(folder, 'test.json')]);
+		expect(readFileSync(join(folder, 'test.json'), 'utf8')).toBe('{}');
+		writeCommandFiles(folder, definitions, 'json', true);
+		expect(JSON.parse(readFileSync(join(folder, 'test.json'), 'utf8'))).toEqual(definitions[0]);
+	});
+});
@@ -0,0 +1,192 @@
+import { DiscordAPIError, HTTPError } from '@discordjs/rest';
+import type { APIApplicationCommand } from 'discord-api-types/v10';
+import { describe, test, expect } from 'vitest';
+import type { DeployPlan, DeployResponse } from '../src/lib/Deploy.js';
+import { CommandChangeType } from '../src/lib/Diff.js';
+import { OutputSchemaVersion, serializePlan, serializeResults } from '../src/lib/Serializer.js';
+
+const existingCommand: APIApplicationCommand = {
+	id: '828935534738669580',
+	application_id: '778562519022698507',
+	name: 'ping',
+	description: 'pong',
+	version: '828935534738669581',
+	default_member_permissions: null,
+	type: 1,
+};
+
+const invalidBody = new DiscordAPIError(
+	{ code: 50_035, message: 'Invalid Form Body' },
+	50_035,
+	400,
+	'POST',
+	'/applications/778562519022698507/commands',
+	{},
+);
+
+const invalidBodyJSON = { code: 50_035, message: 'Invalid Form Body', status: 400 };
+
+describe('JSON Output', () => {
+	test('Deploy results', () => {
+		const change = { path: 'description', type: CommandChangeType.Changed, oldValue: 'pong', newValue: 'ping pong' };
+		const results: DeployResponse = {
+			global: {
+				commands: [existingCommand],
+				deleted: [{ ...existingCommand, id: '1', name: 'old', version: '2' }],
+				errored: [{ name: 'bad', command: { name: 'bad', description: '' }, error: invalidBody }],
+				failedDeletes: [
+					{
+						name: 'gone',
+						existing: { ...existingCommand, id: '3', name: 'gone', version: '4' },
+						error: new HTTPError(500, 'DELETE', '/applications/778562519022698507/commands/3', {}),
+					},
+				],
+				permissions: [
+					{
+						commandId: existingCommand.id,
+						error: invalidBody,
+						guildId: '5',
+						name: 'ping',
+						permissions: [],
+						previous: [],
+						status: 'errored',
+						type: 1,
+					},
+				],
+				skipped: [
+					{ name: 'echo', command: { name: 'echo', description: 'echo' } },
+					{
+						name: 'ping',
+						id: existingCommand.id,
+						command: { name: 'ping', description: 'pong' },
+						existing: existingCommand,
+					},
+				],
+				updated: [
+					{
+						name: 'ping',
+						changes: [change],
+						command: { name: 'ping', description: 'ping pong' },
+						existing: existingCommand,
+						result: { ...existingCommand, description: 'ping pong', version: '6' },
+					},
+				],
+			},
+			guilds: new Map([
+				[
+					'5',
+					{
+						bulkError: invalidBody,
+						commands: [],
+						deleted: [],
+						errored: [],
+						failedDeletes: [],
+						permissions: [],
+						skipped: [],
+						updated: [],
+					},
+				],
+			]),
+		};
+		const ping = { id: existingCommand.id, name: 'ping', type: 1, version: existingCommand.version };
+		expect(serializeResults(results)).toEqual({
+			schemaVersion: OutputSchemaVersion,
+			dev: null,
+			error: null,
+			global: {
+				bulkError: null,
+				created: [ping],
+				updated: [{ ...ping, version: '6', previousVersion: existingCommand.version, changes: [change] }],
+				skipped: [
+					{ id: null, name: 'echo', type: 1, version: null, reason: 'dry-run' },
+					{ ...ping, reason: 'up-to-date' },
+				],
+				deleted: [{ id: '1', name: 'old', type: 1, version: '2' }],
+				errored: [{ id: null, name: 'bad', type: 1, version: null, error: invalidBodyJSON }],
+				failedDeletes: [
+					{
+						id: '3',
+						name: 'gone',
+						type: 1,
+						version: '4',
+						error: { code: null, message: expect.any(String), status: 500 },
+					},
+				],
+				permissions: [
+					{
+						commandId: existingCommand.id,
+						error: invalidBodyJSON,
+						guildId: '5',
+						name: 'ping',
+						permissions: [],
+						previous: [],
+						status: 'errored',
+						type: 1,
+					},
+				],
+			},
+			guilds: {
+				'5': {
+					bulkError: invalidBodyJSON,
+					created: [],
+					updated: [],
+					skipped: [],
+					deleted: [],
+					errored: [],
+					failedDeletes: [],
+					permissions: [],
+				},
+			},
+		});
+
+		const halted = serializeResults({ dev: '5', error: invalidBody, guilds: new Map() });
+		expect(halted).toEqual({
+			schemaVersion: OutputSchemaVersion,
+			dev: '5',
+			error: invalidBodyJSON,
+			global: null,
+			guilds: {},
+		});
+	});
+	test('Plans', () => {
+		const change = { path: 'description', type: CommandChangeType.Changed, oldValue: 'pong', newValue: 'ping pong' };
+		const plan: DeployPlan = {
+			global: {
+				created: [{ name: 'echo', description: 'echo', type: 1 }],
+				remoteOnly: [{ ...existingCommand, id: '1', name: 'old', version: '2' }],
+				unchanged: [
+					{
+						name: 'info',
+						command: { name: 'info', description: 'info' },
+						existing: { ...existingCommand, name: 'info' },
+					},
+				],
+				updated: [
+					{
+						name: 'ping',
+						changes: [change],
+						command: { name: 'ping', description: 'ping pong' },
+						existing: existingCommand,
+					},
+				],
+			},
+			guilds: new Map([['5', { error: invalidBody, created: [], remoteOnly: [], unchanged: [], updated: [] }]]),
+			prune: true,
+		};
+		const ping = { id: existingCommand.id, name: 'ping', type: 1, version: existingCommand.version };
+		expect(serializePlan(plan)).toEqual({
+			schemaVersion: OutputSchemaVersion,
+			dev: null,
+			error: null,
+			global: {
+				error: null,
+				created: [{ id: null, name: 'echo', type: 1, version: null }],
+				updated: [{ ...ping, changes: [change] }],
+				unchanged: [{ ...ping, name: 'info' }],
+				remoteOnly: [{ id: '1', name: 'old', type: 1, version: '2' }],
+			},
+			guilds: { '5': { error: invalidBodyJSON, created: [], updated: [], unchanged: [], remoteOnly: [] } },
+			prune: true,
+		});
+	});
+});
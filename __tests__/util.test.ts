@@ -5,7 +5,8 @@ import type {
 	RESTPostAPIContextMenuApplicationCommandsJSONBody,
 } from 'discord-api-types/v10';
 import { describe, test, expect } from 'vitest';
-import { type APIApplicationCommandChoicesOption, commandEquals, optionsEqual } from '../src/lib/Util.js';
+import { commandEquals, getCommandPatch, optionsEqual } from '../src/lib/Diff.js';
+import type { APIApplicationCommandChoicesOption } from '../src/lib/Util.js';
 
 const receivedChatCommand = {
 	id: '828935534738669580',
@@ -68,13 +69,13 @@ const receivedChatCommand = {
 					type: 3,
 					name: 'string',
 					description: 'the string choices',
-					autcomplete: true,
+					autocomplete: true,
 				},
 				{
 					type: 4,
 					name: 'int',
 					description: 'the integer choices',
-					autcomplete: true,
+					autocomplete: true,
 				},
 			],
 		},
@@ -309,3 +310,160 @@ describe('Application Command Equality', () => {
 		expect(commandEquals(receivedChatCommand, { ...sentCommandNoOptions, options })).toBe(false);
 	});
 });
+
+describe('Application Command Patch', () => {
+	test('Unchanged commands', () => {
+		expect(getCommandPatch(receivedChatCommand, sentChatCommand)).toEqual({});
+		expect(getCommandPatch(receivedUserCommand, sentUserCommand)).toEqual({});
+	});
+	test('Changed fields only', () => {
+		expect(getCommandPatch(receivedChatCommand, { ...sentChatCommand, description: 'another description' })).toEqual({
+			description: 'another description',
+		});
+		expect(getCommandPatch(receivedUserCommand, { ...sentUserCommand, default_member_permissions: '8' })).toEqual({
+			default_member_permissions: '8',
+		});
+		const options = deepObjectArrayClone(receivedChatCommand.options);
+		options.shift();
+		expect(getCommandPatch(receivedChatCommand, { ...sentChatCommand, options })).toEqual({ options });
+	});
+	test('Omitted fields are reset', () => {
+		const mutableSentCommand = { ...sentChatCommand };
+		delete mutableSentCommand.options;
+		delete mutableSentCommand.default_member_permissions;
+		expect(
+			getCommandPatch({ ...receivedChatCommand, name_localizations: { fr: 'essai' } }, mutableSentCommand),
+		).toEqual({ options: [], default_member_permissions: null, name_localizations: null });
+		expect(getCommandPatch(receivedChatCommand, { ...sentChatCommand, dm_permission: false })).toEqual({
+			dm_permission: false,
+		});
+		expect(
+			getCommandPatch(
+				{ ...receivedChatCommand, guild_id: '828935534738669582' },
+				{ ...sentChatCommand, dm_permission: false },
+			),
+		).toEqual({});
+	});
+});
+
+describe('Option Order', () => {
+	const nestedCommand = {
+		...receivedChatCommand,
+		options: [
+			{
+				type: 2,
+				name: 'group',
+				description: 'a subcommand group',
+				options: [
+					{
+						type: 1,
+						name: 'first',
+						description: 'the first subcommand',
+						options: [
+							{
+								type: 3,
+								name: 'string',
+								description: 'the argument',
+								choices: [
+									{ name: 'a', value: 'a' },
+									{ name: 'b', value: 'b' },
+								],
+							},
+							{ type: 7, name: 'channel', description: 'the argument', channel_types: [0, 2] },
+							{ type: 4, name: 'int', description: 'the argument', min_value: 0 },
+						],
+					},
+					{ type: 1, name: 'second', description: 'the second subcommand' },
+				],
+			},
+			{ type: 1, name: 'other', description: 'another subcommand' },
+		],
+	};
+
+	function cloneNested() {
+		return {
+			...sentChatCommand,
+			options: structuredClone(nestedCommand.options),
+		} as RESTPostAPIChatInputApplicationCommandsJSONBody & { options: Record<string, any>[] };
+	}
+
+	test('Identical nesting', () => {
+		expect(commandEquals(nestedCommand, cloneNested())).toBe(true);
+	});
+	test('Reordered options at every level', () => {
+		let command = cloneNested();
+		command.options.reverse();
+		expect(commandEquals(nestedCommand, command)).toBe(false);
+		command = cloneNested();
+		command.options[0]!.options.reverse();
+		expect(commandEquals(nestedCommand, command)).toBe(false);
+		command = cloneNested();
+		command.options[0]!.options[0].options.reverse();
+		expect(commandEquals(nestedCommand, command)).toBe(false);
+		expect(getCommandPatch(nestedCommand, command)).toEqual({ options: command.options });
+	});
+	test('Choices and channel types in nested options', () => {
+		let command = cloneNested();
+		command.options[0]!.options[0].options[0].choices.reverse();
+		expect(commandEquals(nestedCommand, command)).toBe(false);
+		command = cloneNested();
+		command.options[0]!.options[0].options[1].channel_types.reverse();
+		expect(commandEquals(nestedCommand, command)).toBe(true);
+		command = cloneNested();
+		command.options[0]!.options[0].options[2].min_value = 1;
+		expect(commandEquals(nestedCommand, command)).toBe(false);
+	});
+	test('Differences after a subcommand group are found', () => {
+		const command = cloneNested();
+		command.options[1]!.description = 'changed';
+		expect(commandEquals(nestedCommand, command)).toBe(false);
+		expect(optionsEqual(nestedCommand.options, command.options)).toBe(false);
+	});
+});
+
+describe('Integration Types and Contexts', () => {
+	const receivedGlobalCommand = { ...receivedChatCommand, integration_types: [0], contexts: null };
+	test('Defaults', () => {
+		expect(commandEquals(receivedChatCommand, sentChatCommand)).toBe(true);
+		expect(commandEquals(receivedGlobalCommand, sentChatCommand)).toBe(true);
+		expect(
+			commandEquals(receivedGlobalCommand, { ...sentChatCommand, integration_types: [0], contexts: [2, 1, 0] }),
+		).toBe(true);
+		expect(commandEquals({ ...receivedGlobalCommand, contexts: [0, 1, 2] }, sentChatCommand)).toBe(true);
+	});
+	test('Changes', () => {
+		expect(commandEquals(receivedGlobalCommand, { ...sentChatCommand, integration_types: [0, 1] })).toBe(false);
+		expect(commandEquals(receivedGlobalCommand, { ...sentChatCommand, contexts: [0] })).toBe(false);
+		expect(commandEquals({ ...receivedGlobalCommand, integration_types: [1, 0] }, sentChatCommand)).toBe(false);
+		expect(
+			getCommandPatch(receivedGlobalCommand, { ...sentChatCommand, integration_types: [1], contexts: [1, 2] }),
+		).toEqual({ integration_types: [1], contexts: [1, 2] });
+		expect(
+			getCommandPatch({ ...receivedGlobalCommand, integration_types: [0, 1], contexts: [0] }, sentChatCommand),
+		).toEqual({ integration_types: [0], contexts: [0, 1, 2] });
+	});
+	test('Guild commands', () => {
+		const receivedGuildCommand = { ...receivedGlobalCommand, guild_id: '828935534738669582' };
+		expect(commandEquals(receivedGuildCommand, { ...sentChatCommand, integration_types: [1], contexts: [0] })).toBe(
+			true,
+		);
+		expect(getCommandPatch(receivedGuildCommand, { ...sentChatCommand, integration_types: [1] })).toEqual({});
+	});
+});
+
+describe('Primary Entry Point Commands', () => {
+	const receivedEntryPoint = {
+		...receivedUserCommand,
+		name: 'launch',
+		description: 'Launch',
+		type: 4,
+		handler: 2,
+		default_member_permissions: null,
+	};
+	test('Handler', () => {
+		expect(commandEquals(receivedEntryPoint, { name: 'launch', type: 4, handler: 2 })).toBe(true);
+		expect(commandEquals(receivedEntryPoint, { name: 'launch', type: 4 })).toBe(true);
+		expect(commandEquals(receivedEntryPoint, { name: 'launch', type: 4, handler: 1 })).toBe(false);
+		expect(getCommandPatch(receivedEntryPoint, { name: 'launch', type: 4, handler: 1 })).toEqual({ handler: 1 });
+	});
+});
@@ -0,0 +1,226 @@
+import type {
+	RESTPostAPIChatInputApplicationCommandsJSONBody,
+	RESTPostAPIContextMenuApplicationCommandsJSONBody,
+} from 'discord-api-types/v10';
+import { describe, test, expect } from 'vitest';
+import { getCommandLength, validateCommand } from '../src/lib/Validator.js';
+
+const validChatCommand: RESTPostAPIChatInputApplicationCommandsJSONBody = {
+	name: 'test',
+	description: 'various tests',
+	name_localizations: { fr: 'essai' },
+	type: 1,
+	options: [
+		{
+			type: 1,
+			name: 'argument',
+			description: 'test with arguments',
+			options: [
+				{ type: 3, name: 'string', description: 'the argument', required: true, min_length: 1, max_length: 50 },
+				{
+					type: 4,
+					name: 'int',
+					description: 'the argument',
+					choices: [
+						{ name: 'One', value: 1 },
+						{ name: 'Two', value: 2 },
+					],
+				},
+				{ type: 10, name: 'número', description: 'the argument', min_value: 0, max_value: 1.5 },
+			],
+		},
+		{
+			type: 2,
+			name: 'group',
+			description: 'test with a group',
+			options: [{ type: 1, name: 'empty', description: 'no arguments' }],
+		},
+	],
+};
+
+const validContextCommand: RESTPostAPIContextMenuApplicationCommandsJSONBody = {
+	name: 'Report Message',
+	type: 3,
+};
+
+function getPaths(command: Parameters<typeof validateCommand>[0]) {
+	return validateCommand(command).map((error) => error.path);
+}
+
+describe('Command Validation', () => {
+	test('Valid commands', () => {
+		expect(validateCommand(validChatCommand)).toEqual([]);
+		expect(validateCommand(validContextCommand)).toEqual([]);
+		expect(validateCommand({ name: 'ping', description: 'pong' })).toEqual([]);
+	});
+	test('Names and descriptions', () => {
+		expect(getPaths({ ...validChatCommand, name: 'Test' })).toEqual(['name']);
+		expect(getPaths({ ...validChatCommand, name: 'a test' })).toEqual(['name']);
+		expect(getPaths({ ...validChatCommand, name: "don't" })).toEqual([]);
+		expect(getPaths({ ...validChatCommand, name: 'don"t' })).toEqual(['name']);
+		expect(getPaths({ ...validChatCommand, name: 'a'.repeat(33) })).toEqual(['name']);
+		expect(getPaths({ ...validChatCommand, description: '' })).toEqual(['description']);
+		expect(getPaths({ ...validChatCommand, description: 'a'.repeat(101) })).toEqual(['description']);
+		expect(getPaths({ ...validChatCommand, name_localizations: { fr: 'Essai' } })).toEqual(['name_localizations.fr']);
+		expect(validateCommand({ ...validChatCommand, name: 'Test' })[0]).toEqual({
+			command: 'Test',
+			message: 'Must be lowercase',
+			path: 'name',
+			type: 1,
+		});
+	});
+	test('Context menu commands', () => {
+		expect(getPaths({ ...validContextCommand, name: 'a'.repeat(33) })).toEqual(['name']);
+		expect(
+			getPaths({
+				...validContextCommand,
+				description: 'not allowed',
+				options: [],
+			} as RESTPostAPIContextMenuApplicationCommandsJSONBody),
+		).toEqual(['description']);
+		expect(
+			getPaths({
+				...validContextCommand,
+				options: [{ type: 3, name: 'string', description: 'the argument' }],
+			} as RESTPostAPIContextMenuApplicationCommandsJSONBody),
+		).toEqual(['options']);
+	});
+	test('Option structure', () => {
+		expect(
+			getPaths({
+				...validChatCommand,
+				options: [
+					{ type: 3, name: 'optional', description: 'the argument' },
+					{ type: 3, name: 'required', description: 'the argument', required: true },
+				],
+			}),
+		).toEqual(['options[1].required']);
+		expect(
+			getPaths({
+				...validChatCommand,
+				options: [
+					{ type: 1, name: 'sub', description: 'a subcommand' },
+					{ type: 3, name: 'string', description: 'the argument' },
+				],
+			}),
+		).toEqual(['options']);
+		expect(
+			getPaths({
+				...validChatCommand,
+				options: [
+					{ type: 3, name: 'string', description: 'the argument' },
+					{ type: 3, name: 'string', description: 'the argument' },
+				],
+			}),
+		).toEqual(['options[1].name']);
+		expect(
+			getPaths({
+				...validChatCommand,
+				options: Array.from({ length: 26 }, (_, index) => ({
+					type: 3 as const,
+					name: `option-${index}`,
+					description: 'the argument',
+				})),
+			}),
+		).toEqual(['options']);
+		expect(
+			getPaths({
+				...validChatCommand,
+				options: [
+					{
+						type: 2,
+						name: 'group',
+						description: 'a group',
+						options: [{ type: 3, name: 'string', description: 'the argument' }] as never,
+					},
+				],
+			}),
+		).toEqual(['options[0].options']);
+	});
+	test('Choices and ranges', () => {
+		expect(
+			getPaths({
+				...validChatCommand,
+				options: [
+					{
+						type: 3,
+						name: 'string',
+						description: 'the argument',
+						choices: [
+							{ name: 'a'.repeat(101), value: 'a' },
+							{ name: 'b', value: 'b'.repeat(101) },
+						],
+					},
+				],
+			}),
+		).toEqual(['options[0].choices[0].name', 'options[0].choices[1].value']);
+		expect(
+			getPaths({
+				...validChatCommand,
+				options: [
+					{
+						type: 4,
+						name: 'int',
+						description: 'the argument',
+						choices: Array.from({ length: 26 }, (_, index) => ({ name: `${index}`, value: index })),
+					},
+				],
+			}),
+		).toEqual(['options[0].choices']);
+		expect(
+			getPaths({
+				...validChatCommand,
+				options: [{ type: 4, name: 'int', description: 'the argument', choices: [{ name: 'half', value: 0.5 }] }],
+			}),
+		).toEqual(['options[0].choices[0].value']);
+		expect(
+			getPaths({
+				...validChatCommand,
+				options: [
+					{
+						type: 3,
+						name: 'string',
+						description: 'the argument',
+						autocomplete: true,
+						choices: [{ name: 'a', value: 'a' }],
+					} as never,
+				],
+			}),
+		).toEqual(['options[0].choices']);
+		expect(
+			getPaths({
+				...validChatCommand,
+				options: [{ type: 10, name: 'number', description: 'the argument', min_value: 10, max_value: 1 }],
+			}),
+		).toEqual(['options[0].min_value']);
+		expect(
+			getPaths({
+				...validChatCommand,
+				options: [{ type: 3, name: 'string', description: 'the argument', min_length: 10, max_length: 6_001 }],
+			}),
+		).toEqual(['options[0].max_length']);
+	});
+	test('Primary entry point commands', () => {
+		const entryPoint = { name: 'launch', description: 'Launch the activity', type: 4, handler: 2 } as const;
+		expect(validateCommand(entryPoint)).toEqual([]);
+		expect(getPaths({ ...entryPoint, description: '' } as never)).toEqual(['description']);
+		expect(getPaths({ ...entryPoint, handler: 3 } as never)).toEqual(['handler']);
+		expect(
+			getPaths({ ...entryPoint, options: [{ type: 3, name: 'string', description: 'the argument' }] } as never),
+		).toEqual(['options']);
+	});
+	test('Total length', () => {
+		expect(getCommandLength({ name: 'ping', description: 'pong' })).toBe(8);
+		// The longest locale is counted
+		expect(
+			getCommandLength({ name: 'ping', description: 'pong', description_localizations: { fr: 'pong pong' } }),
+		).toBe(13);
+		const options = Array.from({ length: 25 }, (_, index) => ({
+			type: 3 as const,
+			name: `option-${index}`,
+			description: 'd'.repeat(100),
+			choices: [{ name: 'n'.repeat(100), value: 'v'.repeat(100) }],
+		}));
+		expect(getPaths({ name: 'long', description: 'a long command', options })).toEqual(['']);
+	});
+});
@@ -1,26 +1,75 @@
 #!/usr/bin/env node
 
-import { existsSync, type PathLike } from 'node:fs';
+import { existsSync, writeFileSync, type PathLike } from 'node:fs';
 import process from 'node:process';
-import { createInterface as createPrompt } from 'node:readline';
+import { createInterface as createPrompt, type Interface } from 'node:readline';
 import { setTimeout, clearTimeout } from 'node:timers';
 import chalk from 'chalk';
-import { Command } from 'commander';
+import { Command, InvalidArgumentError, Option } from 'commander';
 import {
+	type APIApplicationCommand,
+	type APIApplicationCommandPermission,
 	ApplicationCommandType,
+	type ApplicationIntegrationType,
+	type InteractionContextType,
 	type RESTPostAPIApplicationCommandsJSONBody,
 	type Snowflake,
 } from 'discord-api-types/v10';
 import * as dotenv from 'dotenv';
 import { version } from '../../package.json';
-import { deploy, type ApplicationCommandConfig, type CommandMap, type DeployResponse } from '../lib/Deploy.js';
-import { getCommands, getStoredConfig, storeConfig } from '../lib/FileParser.js';
-import outputResults from '../lib/LogCompiler.js';
+import {
+	Deployer,
+	deployApplications,
+	planApplications,
+	type DeployDestination,
+	type ApplicationCommandConfig,
+	type CommandMap,
+	type DeployConfig,
+	type DeployPlan,
+	type DeployResponse,
+} from '../lib/Deploy.js';
+import {
+	ConfigurationError,
+	ExitCode,
+	getCombinedExitCode,
+	getDeployExitCode,
+	getErrorExitCode,
+	getPlanExitCode,
+} from '../lib/ExitCode.js';
+import { getCommands, getStoredConfig, storeConfig, type StoredConfig } from '../lib/FileParser.js';
+import outputResults, {
+	outputApplicationHeader,
+	outputCommandList,
+	outputLoadFailures,
+	outputPlan,
+	outputPull,
+	outputValidationErrors,
+} from '../lib/LogCompiler.js';
+import { type PullFormat, pullCommands, writeCommandFiles } from '../lib/Pull.js';
+import {
+	serializeApplicationPlans,
+	serializeApplicationResults,
+	serializeCommandList,
+	serializePlan,
+	serializeResults,
+} from '../lib/Serializer.js';
+import { validateCommands } from '../lib/Validator.js';
 
 /**
  * The configuration that can be used to deploy commands using the `deploy-interactions` commands
  */
 export interface InteractionsDeployConfig {
+	/**
+	 * The applications to deploy the commands to in a single run, each with its own credentials and destinations.
+	 * When set, `clientId` and the credentials of the base config are only used as defaults for each application
+	 */
+	applications?: InteractionsDeployApplicationConfig[];
+	/**
+	 * A bearer token to deploy commands with instead of the bot token
+	 *
+	 * **Like `token`, this is never stored by `--store`**
+	 */
+	bearerToken?: string;
 	/**
 	 * Whether to overwrite all commands when deploying (uses the PUT endpoint instead of POST)
 	 * **Always skips equality checks**
@@ -30,6 +79,17 @@ export interface InteractionsDeployConfig {
 	 * The id of the client / application to deploy commands to
 	 */
 	clientId?: Snowflake;
+	/**
+	 * The name of an environment variable to read `clientId` from, used over `clientId` when the variable is set
+	 */
+	clientIdEnv?: string;
+	/**
+	 * The client secret of the application, exchanged for a bearer token with only the `applications.commands.update` scope
+	 * so the bot token is not needed to deploy
+	 *
+	 * **Like `token`, this is never stored by `--store`**
+	 */
+	clientSecret?: string;
 	/**
 	 * The raw definitions for deploying commands. *It is stronly recommended against using this key
 	 * unless the config file is the only place where you store command definitions*
@@ -44,9 +104,16 @@ export interface InteractionsDeployConfig {
 	 */
 	commandDestinations?: InteractionsDeployDestinationsConfig;
 	/**
-	 * The paths to load command definitions from, possibly with deployment configs for the entire path
+	 * The paths to load command definitions from, possibly with deployment configs for the entire path.
+	 * Paths may be files, folders (searched recursively) or glob patterns, patterns starting with `!` exclude files
+	 */
+	commands?: (PathLike | PathLikeWithDestinationConfig)[];
+	/**
+	 * The maximum number of guilds to deploy to at the same time
+	 *
+	 * @defaultValue 1
 	 */
-	commands?: PathLike[] | PathLikeWithDestinationConfig[];
+	concurrency?: number;
 	/**
 	 * Runs the deployment in debug mode, with much more verbose output
 	 *
@@ -83,6 +150,34 @@ export interface InteractionsDeployConfig {
 	 * The name of the export in the command files, if the command definition is not the default export
 	 */
 	namedExport?: string;
+	/**
+	 * The format to output results in, `json` outputs the stable JSON schema with no other console output
+	 *
+	 * @defaultValue 'table'
+	 */
+	output?: OutputFormat;
+	/**
+	 * The path to a file to write the JSON results to, regardless of the output format
+	 */
+	outputFile?: string;
+	/**
+	 * The bearer token of a user with permission to manage the guilds, required when any command has `permissions` configured
+	 *
+	 * **Please do not store this token in your config directly, like `token` it is never stored by `--store`**
+	 */
+	permissionsToken?: string;
+	/**
+	 * Named sets of settings (e.g. `staging`, `production`) that override the rest of the config when selected with `--profile`
+	 */
+	profiles?: Record<string, InteractionsDeployProfileConfig>;
+	/**
+	 * Deletes deployed commands that are no longer defined locally from every destination being deployed to
+	 */
+	prune?: boolean;
+	/**
+	 * Aborts the deploy if any command file fails to load, instead of skipping it
+	 */
+	strict?: boolean;
 	/**
 	 * Enables printing summary view after deployment
 	 *
@@ -97,13 +192,55 @@ export interface InteractionsDeployConfig {
 	 * Note that `dotenv.config()` is called when loading stored configs to ensure your `.env` file key is available
 	 */
 	token?: string;
+	/**
+	 * The name of an environment variable to read `token` from, used over `token` when the variable is set.
+	 * Lets JSON configs (which cannot access `process.env`) be committed without the token
+	 */
+	tokenEnv?: string;
 }
 
+/**
+ * An application to deploy to when deploying to several applications, any setting it contains replaces the one in the base config
+ */
+export interface InteractionsDeployApplicationConfig
+	extends Pick<
+		InteractionsDeployConfig,
+		| 'bearerToken'
+		| 'bulkOverwrite'
+		| 'clientSecret'
+		| 'commandDestinations'
+		| 'developer'
+		| 'devGuildId'
+		| 'dryRun'
+		| 'force'
+		| 'permissionsToken'
+		| 'prune'
+		| 'token'
+		| 'tokenEnv'
+	> {
+	/**
+	 * The id of the application to deploy commands to
+	 */
+	clientId: Snowflake;
+}
+
+/**
+ * The settings of a profile, any setting it contains replaces the one in the base config
+ */
+export type InteractionsDeployProfileConfig = Omit<InteractionsDeployConfig, 'profiles'>;
+
+/**
+ * The formats results can be output in
+ */
+export type OutputFormat = 'json' | 'table';
+
 const DefaultConfig: InteractionsDeployConfig = {
 	bulkOverwrite: false,
 	debug: false,
 	dryRun: false,
 	force: false,
+	prune: false,
+	strict: false,
 };
 
 /**
@@ -115,7 +252,7 @@ export interface PathLikeWithDestinationConfig {
 	 */
 	destinations: { global: boolean; guildIds?: Snowflake[] };
 	/**
-	 * The path to the file(s) that uses this destination config
+	 * The path to the file(s) that uses this destination config, either a file, a folder, or a glob pattern
 	 */
 	path: PathLike;
 }
@@ -138,10 +275,24 @@ export interface InteractionsDeployDestinationsConfig {
  * The name and type of a command to be deployed, effectively an id before one exists
  */
 export interface InteractionsDeployCommandConfig {
+	/**
+	 * The interaction contexts the command can be used in (guild, bot DM, private channel), only used for global commands.
+	 * Replaces the `contexts` of the command definition
+	 */
+	contexts?: InteractionContextType[];
+	/**
+	 * The installation contexts the command is available in (guild install, user install), only used for global commands.
+	 * Replaces the `integration_types` of the command definition
+	 */
+	integrationTypes?: ApplicationIntegrationType[];
 	/**
 	 * The name of the command
 	 */
 	name: string;
+	/**
+	 * The permission overwrites of the command, keyed by the id of the guild they apply in
+	 */
+	permissions?: Record<Snowflake, APIApplicationCommandPermission[]>;
 	/**
 	 * The type of application command (names are unique per type)
 	 *
@@ -151,9 +302,13 @@ export interface InteractionsDeployCommandConfig {
 }
 
 interface CommandOptions {
+	bearerToken?: string;
 	bulkOverwrite?: boolean;
+	ci?: boolean;
 	clientId?: Snowflake;
+	clientSecret?: string;
 	commands?: string[];
+	concurrency?: number;
 	config?: string;
 	debug?: boolean;
 	developer?: boolean | string;
@@ -161,34 +316,129 @@ interface CommandOptions {
 	force?: boolean;
 	full?: boolean;
 	global: boolean;
+	interactive: boolean;
 	namedExport?: string;
+	output?: OutputFormat;
+	outputFile?: string;
+	permissionsToken?: string;
+	profile?: string;
+	prune?: boolean;
 	store?: boolean | string;
+	strict?: boolean;
 	summary: boolean;
 	token?: string;
 }
 
+interface ListOptions {
+	allGuilds?: boolean;
+	global?: boolean;
+	guild?: Snowflake[];
+	json?: boolean;
+}
+
+interface PullOptions {
+	folder: string;
+	format: PullFormat;
+	guild?: Snowflake[];
+	overwrite?: boolean;
+}
+
+function parsePositiveInteger(value: string) {
+	const parsed = Number(value);
+	if (!Number.isInteger(parsed) || parsed < 1) throw new InvalidArgumentError('Must be a positive integer.');
+	return parsed;
+}
+
 // Setup executing CLI
+let subcommand: 'deploy' | 'diff' | 'list' | 'pull' | 'validate' = 'deploy';
+let failOnChanges = false;
+let listOptions: ListOptions = {};
+let pullOptions: PullOptions = { folder: 'commands', format: 'json' };
 const command = new Command();
 command.showHelpAfterError('(add --help for additional information)');
 command
 	.option('-t, --token <token>', 'The bot token for your application')
 	.option('-i, --client-id <clientId>')
+	.option(
+		'--client-secret <secret>',
+		'The client secret to exchange for a bearer token, instead of using the bot token',
+	)
+	.option('--bearer-token <token>', 'A bearer token to deploy with instead of the bot token')
+	.option('--permissions-token <token>', 'The bearer token used to deploy command permissions')
 	.option('-c, --commands <files...>', 'The path(s) to the files which contain commands to be deployed')
 	.option('-d, --developer [guildId]', 'Run deployment in developer mode (deploy to a single guild)')
 	.option('-b, --bulk-overwrite', 'Overwrite all commands')
 	.option('-f, --force', 'Skip equality checks and call the API directly')
+	.option('-p, --prune', 'Delete deployed commands that are no longer defined locally')
+	.option('--concurrency <count>', 'The maximum number of guilds to deploy to at the same time', parsePositiveInteger)
 	.option('--no-global', 'Disable global deployment, only deploy to guilds')
+	.option('--strict', 'Abort if any command file fails to load instead of skipping it')
 	.option('-n, --named-export <name>', 'Use the specified name when looking for command exports')
 	.option('-r, --dry-run', 'Only runs file parsing logic and does not deploy to discord')
 	.option('--no-summary', 'Disable the output of the summary after deployment')
 	.option('--full', 'Enable output of the full deployment status')
+	.addOption(
+		new Option('-o, --output <format>', 'The format to output results in, json disables all other output').choices([
+			'json',
+			'table',
+		]),
+	)
+	.option('--output-file <path>', 'Write the results as JSON to the specified file')
 	.option(
 		'-s, --store [filename]',
-		'Store the generated configuration (excluding token) to .interactionsrc.json or the specified file',
+		'Store the generated configuration (excluding tokens and secrets) to .interactionsrc.json or the specified file',
 	)
-	.option('--config <file>', 'The path to a configuration file to use (js, json)')
+	.option('--config <file>', 'The path to a configuration file to use (js, cjs, mjs, ts, json, yaml)')
+	.option('--profile <name>', 'The profile in the configuration file to merge over the base settings')
 	.option('--debug', 'Output debug logs from file parsing')
-	.version(version);
+	.option('--ci', 'Never prompt for input, failing immediately when required settings are missing')
+	.option('--no-interactive', 'Never prompt for input (same as --ci, also the default when stdin is not a terminal)')
+	.version(version)
+	.action(() => {
+		subcommand = 'deploy';
+	});
+
+command
+	.command('diff')
+	.description('Show the changes a deploy would make for every destination without deploying (read only)')
+	.option('--fail-on-changes', 'Exit with a non-zero code when the deploy would make any changes')
+	.action((options: { failOnChanges?: boolean }) => {
+		subcommand = 'diff';
+		failOnChanges = options.failOnChanges ?? false;
+	});
+
+command
+	.command('list')
+	.description('Show the commands deployed to the application (read only)')
+	.option('--guild <guildIds...>', 'The guilds to list commands from')
+	.option('--global', 'List the global commands (default when no guilds are selected)')
+	.option('--all-guilds', 'List the commands of every guild in commandDestinations')
+	.option('--json', 'Output the commands as JSON, the same as --output json')
+	.action((options: ListOptions) => {
+		subcommand = 'list';
+		listOptions = options;
+	});
+
+command
+	.command('pull')
+	.description('Write the deployed commands to local definition files, one file per command')
+	.argument('[folder]', 'The folder to write the command files to', 'commands')
+	.addOption(
+		new Option('--format <format>', 'The format to write the command files in').choices(['json', 'js']).default('json'),
+	)
+	.option('--guild <guildIds...>', 'The guilds to pull commands from (default: the guilds in commandDestinations)')
+	.option('--overwrite', 'Replace existing command files')
+	.action((folder: string, options: Omit<PullOptions, 'folder'>) => {
+		subcommand = 'pull';
+		pullOptions = { folder, ...options };
+	});
+
+command
+	.command('validate')
+	.description("Check the command definitions against discord's limits without calling the API")
+	.action(() => {
+		subcommand = 'validate';
+	});
 
 command.parse();
 
@@ -200,17 +450,37 @@ const overrideOptions = command.opts<CommandOptions>();
  */
 dotenv.config(); // Not sure if this should be called here or let users call it
 
-// Setup additional prompt CLI
-const prompt = createPrompt({
-	input: process.stdin,
-	output: process.stdout,
-});
+// Never prompt when explicitly disabled or when there is no terminal to prompt in (e.g. CI runners)
+const interactive = overrideOptions.interactive && !overrideOptions.ci && Boolean(process.stdin.isTTY);
+
+// Setup additional prompt CLI, only created once input is actually needed
+let prompt: Interface | null = null;
+
+function getPrompt() {
+	prompt ??= createPrompt({
+		input: process.stdin,
+		output: process.stdout,
+	});
+	return prompt;
+}
+
+function closePrompt() {
+	prompt?.close();
+}
 
 // Utility functions
 function mergeOverrides(output: InteractionsDeployConfig, input: CommandOptions) {
+	if ('bearerToken' in input) output.bearerToken = input.bearerToken;
 	if ('bulkOverwrite' in input) output.bulkOverwrite = input.bulkOverwrite;
-	if ('clientId' in input) output.clientId = input.clientId;
+	if ('clientId' in input) {
+		output.clientId = input.clientId;
+		// A client id from the command line deploys to that application only
+		delete output.applications;
+	}
+
+	if ('clientSecret' in input) output.clientSecret = input.clientSecret;
 	if ('commands' in input) output.commands = input.commands;
+	if ('concurrency' in input) output.concurrency = input.concurrency;
 	if ('debug' in input) output.debug = input.debug;
 	if ('developer' in input) {
 		output.developer = true;
@@ -225,6 +495,11 @@ function mergeOverrides(output: InteractionsDeployConfig, input: CommandOptions)
 	if ('force' in input) output.force = input.force;
 	if ('full' in input) output.full = input.full;
 	if ('namedExport' in input) output.namedExport = input.namedExport;
+	if ('output' in input) output.output = input.output;
+	if ('outputFile' in input) output.outputFile = input.outputFile;
+	if ('permissionsToken' in input) output.permissionsToken = input.permissionsToken;
+	if ('prune' in input) output.prune = input.prune;
+	if ('strict' in input) output.strict = input.strict;
 	if (!input.summary) output.summary = input.summary;
 	if ('token' in input) output.token = input.token;
 }
@@ -244,15 +519,17 @@ async function getInput(
 	options: InputOptions | (InputOptions & { validator(input: string): boolean }),
 ): Promise<string>;
 async function getInput<T = string>({ query, transformer, validator }: InputOptions<T>): Promise<T | string> {
+	// Missing settings are reported before any input is requested, this guards against any that slip through
+	if (!interactive) throw new ConfigurationError(`Input required while running non-interactively: ${query}`);
 	const controller = new AbortController();
 	const timeout = setTimeout(() => {
 		controller.abort();
-		prompt.close();
+		closePrompt();
 		console.error(chalk.red('No required input for 1 minute, exiting'));
-		process.exit(1);
+		process.exit(ExitCode.ConfigError);
 	}, 60_000).unref();
 	const response = await new Promise<string>((resolve) => {
-		prompt.question(`${query}: `, { signal: controller.signal }, (input) => {
+		getPrompt().question(`${query}: `, { signal: controller.signal }, (input) => {
 			resolve(input);
 		});
 	}).finally(() => clearTimeout(timeout));
@@ -298,6 +575,7 @@ async function disambiguate(
 		[ApplicationCommandType.ChatInput]: 'Chat Input Command',
 		[ApplicationCommandType.User]: 'User Command',
 		[ApplicationCommandType.Message]: 'Message Command',
+		[ApplicationCommandType.PrimaryEntryPoint]: 'Primary Entry Point Command',
 	};
 	for (const name of names) {
 		const possibleCommands = commands.filter((command) => command.name === name);
@@ -306,7 +584,7 @@ async function disambiguate(
 			continue;
 		}
 
-		// Compile type list: Chat Input Command, User Command, and Message Command
+		// Compile type list: Chat Input Command, User Command, Message Command, and Primary Entry Point Command
 		const commandTypes = possibleCommands.reduce((str, current, index) => {
 			const currentName = TypeNames[current.type ?? ApplicationCommandType.ChatInput];
 			switch (index) {
@@ -324,7 +602,7 @@ async function disambiguate(
 		const keepType = await getInput<ApplicationCommandType | -1 | 0>({
 			query: `Please enter the first letter (e.g. u for user) of the type of command that this config is for (or a for all)`,
 			transformer: (input) => {
-				if (!['a', 'c', 'm', 'u'].includes(input.toLowerCase())) return -1;
+				if (!['a', 'c', 'm', 'p', 'u'].includes(input.toLowerCase())) return -1;
 				switch (input.toLowerCase()) {
 					case 'c':
 						return ApplicationCommandType.ChatInput;
@@ -332,6 +610,8 @@ async function disambiguate(
 						return ApplicationCommandType.User;
 					case 'm':
 						return ApplicationCommandType.Message;
+					case 'p':
+						return ApplicationCommandType.PrimaryEntryPoint;
 					case 'a':
 						return 0;
 					default:
@@ -379,7 +659,302 @@ async function getCommandNamesInput(
 	return disambiguate(commandNames, commandDefinitions);
 }
 
-async function runAsync() {
+/**
+ * Checks whether any command in the configured destinations has permission overwrites
+ *
+ * @param config - The merged configuration
+ */
+function hasPermissions(config: InteractionsDeployConfig) {
+	return Object.values(config.commandDestinations ?? {}).some((commands) =>
+		commands?.some((confCommand) => Object.keys(confCommand.permissions ?? {}).length > 0),
+	);
+}
+
+/**
+ * Gets the configs of every application being deployed to, the base config merged with the settings of each application
+ *
+ * @param config - The merged configuration
+ */
+function getTargets(config: InteractionsDeployConfig): InteractionsDeployConfig[] {
+	if (!config.applications?.length) return [config];
+	return config.applications.map((application) => ({ ...config, ...application }));
+}
+
+/**
+ * Determines where each command definition is deployed to from the configured destinations
+ *
+ * @param definitions - The command definitions
+ * @param destinations - The configured destinations
+ */
+function getDestinationCommands(
+	definitions: RESTPostAPIApplicationCommandsJSONBody[],
+	destinations: InteractionsDeployDestinationsConfig | undefined,
+): ApplicationCommandConfig<RESTPostAPIApplicationCommandsJSONBody>[] {
+	return definitions.map((command) => {
+		const conf: ApplicationCommandConfig<RESTPostAPIApplicationCommandsJSONBody> = {
+			command,
+			global: overrideOptions.global,
+			guildIds: [],
+		};
+		for (const [guild, deployConfig] of Object.entries(destinations ?? {})) {
+			if (!deployConfig) continue;
+			const confCommand = deployConfig.find(
+				(destinationCommand) =>
+					destinationCommand.name === command.name &&
+					(destinationCommand.type ?? ApplicationCommandType.ChatInput) ===
+						(command.type ?? ApplicationCommandType.ChatInput),
+			);
+			if (confCommand?.permissions) conf.permissions = { ...conf.permissions, ...confCommand.permissions };
+			if (guild === 'global') {
+				if (!overrideOptions.global) continue;
+				conf.global = confCommand !== undefined;
+				// Only the global command is changed, the definition deployed to guilds is left as is
+				if (confCommand?.integrationTypes || confCommand?.contexts) {
+					conf.globalCommand = { ...command };
+					if (confCommand.integrationTypes) conf.globalCommand.integration_types = confCommand.integrationTypes;
+					if (confCommand.contexts) conf.globalCommand.contexts = confCommand.contexts;
+				}
+
+				continue;
+			}
+
+			if (confCommand) conf.guildIds!.push(guild);
+		}
+
+		return conf;
+	});
+}
+
+/**
+ * Creates the library deploy config for a single application
+ *
+ * @param config - The config of the application
+ * @param commands - The commands to deploy to the application
+ * @param silent - Whether to suppress the progress logging
+ */
+function getDeployConfig(
+	config: InteractionsDeployConfig,
+	commands: ApplicationCommandConfig<RESTPostAPIApplicationCommandsJSONBody>[],
+	silent: boolean,
+): DeployConfig {
+	const deployReady: CommandMap = new Map([
+		[
+			ApplicationCommandType.ChatInput,
+			commands.filter(
+				(command) => (command.command.type ?? ApplicationCommandType.ChatInput) === ApplicationCommandType.ChatInput,
+			),
+		],
+		[ApplicationCommandType.User, commands.filter((command) => command.command.type === ApplicationCommandType.User)],
+		[
+			ApplicationCommandType.Message,
+			commands.filter((command) => command.command.type === ApplicationCommandType.Message),
+		],
+		[
+			ApplicationCommandType.PrimaryEntryPoint,
+			commands.filter((command) => command.command.type === ApplicationCommandType.PrimaryEntryPoint),
+		],
+	]) as CommandMap;
+	return {
+		applicationId: config.clientId!,
+		bearerToken: config.bearerToken,
+		bulkOverwrite: config.bulkOverwrite,
+		clientSecret: config.clientSecret,
+		commands: deployReady,
+		concurrency: config.concurrency,
+		devGuildId: config.developer ? config.devGuildId : undefined,
+		dryRun: config.dryRun,
+		force: config.force,
+		permissionsToken: config.permissionsToken,
+		prune: config.prune,
+		// Configured guilds are pruned even once none of their commands are left
+		pruneDestinations: [
+			...(overrideOptions.global ? ['global'] : []),
+			...Object.keys(config.commandDestinations ?? {}).filter((guild) => guild !== 'global'),
+		],
+		silent,
+		token: config.token,
+	};
+}
+
+/**
+ * Checks whether any of the bot token, client secret or bearer token was provided
+ *
+ * @param config - The merged configuration
+ */
+function hasCredentials(config: InteractionsDeployConfig) {
+	return 'token' in config || 'clientSecret' in config || 'bearerToken' in config;
+}
+
+/**
+ * Lists the settings that would otherwise be prompted for
+ *
+ * @param config - The merged configuration
+ */
+function getMissingSettings(config: InteractionsDeployConfig): string[] {
+	const missing: string[] = [];
+	// Validating only requires the command definitions
+	const needsApplication = subcommand !== 'validate';
+	const targets = getTargets(config);
+	if (needsApplication && !('clientId' in config) && !config.applications?.length) {
+		missing.push('clientId (--client-id <clientId>)');
+	}
+
+	for (const target of needsApplication ? targets : []) {
+		if (hasCredentials(target)) continue;
+		const forApplication = config.applications?.length ? ` for ${target.clientId!}` : '';
+		missing.push(`token${forApplication} (--token <token>, or --client-secret <secret> / --bearer-token <token>)`);
+	}
+
+	if (subcommand === 'list' || subcommand === 'pull') return missing;
+	const hasCommands = ('commands' in config && config.commands!.length > 0) || 'commandDefinitions' in config;
+	if (!hasCommands) missing.push('commands (--commands <files...>)');
+	if (!needsApplication) return missing;
+	const hasPathDestinations = config.commands?.some(
+		(path) => typeof path === 'object' && 'path' in path && path.destinations.guildIds?.length,
+	);
+	if (
+		hasCommands &&
+		!overrideOptions.global &&
+		!config.developer &&
+		targets.some((target) => !('commandDestinations' in target)) &&
+		!hasPathDestinations
+	) {
+		missing.push('commandDestinations (required in config when using --no-global)');
+	}
+
+	for (const target of targets) {
+		const forApplication = config.applications?.length ? ` for ${target.clientId!}` : '';
+		if (target.developer && !('devGuildId' in target)) {
+			missing.push(`devGuildId${forApplication} (--developer <guildId>)`);
+		}
+
+		if (subcommand === 'deploy' && !target.dryRun && !('permissionsToken' in target) && hasPermissions(target)) {
+			missing.push(`permissionsToken${forApplication} (--permissions-token <token>)`);
+		}
+	}
+
+	return missing;
+}
+
+function outputJSON(data: unknown, toConsole: boolean, file?: string) {
+	if (!toConsole && !file) return;
+	const stringified = JSON.stringify(data, null, '\t');
+	if (toConsole) console.log(stringified);
+	if (file) writeFileSync(file, stringified);
+}
+
+/**
+ * Gets the single application commands are read from, as reading from several applications at once is not supported
+ *
+ * @param config - The merged configuration
+ * @param action - The action reading the commands, used in the error message
+ */
+function getSingleTarget(config: InteractionsDeployConfig, action: string): InteractionsDeployConfig | null {
+	const targets = getTargets(config);
+	if (targets.length > 1) {
+		console.error(
+			chalk`{redBright Error} Commands can only be ${action} from a single application, select one with --client-id`,
+		);
+		return null;
+	}
+
+	return targets[0]!;
+}
+
+/**
+ * Fetches the commands deployed to each destination of an application, logging the error if fetching fails
+ *
+ * @param target - The configuration of the application
+ * @param destinations - The destinations to fetch the commands of
+ * @param silent - Whether to suppress the progress logging
+ */
+async function fetchCommands(
+	target: InteractionsDeployConfig,
+	destinations: DeployDestination[],
+	silent = false,
+): Promise<Map<DeployDestination, APIApplicationCommand[]> | null> {
+	const deployer = new Deployer({
+		applicationId: target.clientId!,
+		bearerToken: target.bearerToken,
+		clientSecret: target.clientSecret,
+		logger: silent ? { log() {} } : console,
+		token: target.token,
+	});
+	try {
+		return await deployer.fetch(destinations);
+	} catch (error) {
+		console.error(chalk`{redBright Error} Could not fetch the deployed commands: ${(error as Error).message}`);
+		return null;
+	}
+}
+
+/**
+ * Outputs the commands deployed to the application
+ *
+ * @param config - The merged configuration
+ */
+async function listAsync(config: InteractionsDeployConfig): Promise<ExitCode> {
+	const target = getSingleTarget(config, 'listed');
+	if (!target) return ExitCode.ConfigError;
+	const guildIds = new Set(listOptions.guild);
+	if (listOptions.allGuilds) {
+		for (const guildId of Object.keys(target.commandDestinations ?? {})) {
+			if (guildId !== 'global') guildIds.add(guildId);
+		}
+	}
+
+	const destinations: DeployDestination[] = [...guildIds];
+	if (listOptions.global || !destinations.length) destinations.unshift('global');
+	const json = listOptions.json ?? config.output === 'json';
+	const remote = await fetchCommands(target, destinations, json);
+	if (!remote) return ExitCode.FatalError;
+	outputJSON(serializeCommandList(remote), json, config.outputFile);
+	if (!json) outputCommandList(remote);
+	return ExitCode.Success;
+}
+
+/**
+ * Writes the commands deployed to the application to local definition files
+ *
+ * @param config - The merged configuration
+ * @param store - The file to store the config with the pulled destinations to
+ * @param stored - The stored config the settings were loaded from
+ */
+async function pullAsync(
+	config: InteractionsDeployConfig,
+	store: string | null,
+	stored: StoredConfig | null,
+): Promise<ExitCode> {
+	const target = getSingleTarget(config, 'pulled');
+	if (!target) return ExitCode.ConfigError;
+	const guildIds =
+		pullOptions.guild ?? Object.keys(target.commandDestinations ?? {}).filter((guild) => guild !== 'global');
+	const destinations: DeployDestination[] = overrideOptions.global ? ['global', ...guildIds] : guildIds;
+	const remote = await fetchCommands(target, destinations);
+	if (!remote) return ExitCode.FatalError;
+
+	const pulled = pullCommands(remote);
+	const files = writeCommandFiles(
+		pullOptions.folder,
+		pulled.definitions,
+		pullOptions.format,
+		pullOptions.overwrite ?? false,
+		config.namedExport,
+	);
+	outputPull(pulled, files);
+	if (store) {
+		const { commandDefinitions, ...storedConfig } = config;
+		storeConfig(
+			{ ...storedConfig, commands: [pullOptions.folder], commandDestinations: pulled.destinations },
+			store,
+			stored,
+		);
+	}
+
+	return ExitCode.Success;
+}
+
+async function runAsync(): Promise<ExitCode> {
 	let store: string | null =
 		typeof overrideOptions.store === 'string'
 			? overrideOptions.store
@@ -393,18 +968,24 @@ async function runAsync() {
 	 * .interactionsrc.json
 	 * package.json - interactionsConfig
 	 */
-	let storedConfig: InteractionsDeployConfig = {};
+	let stored: StoredConfig | null = null;
 	try {
-		storedConfig = getStoredConfig(overrideOptions.debug ?? false, overrideOptions.config) ?? {};
+		stored = await getStoredConfig(overrideOptions.debug ?? false, overrideOptions.config, overrideOptions.profile);
 	} catch {
-		prompt.close();
-		process.exit(1);
+		closePrompt();
+		process.exit(ExitCode.ConfigError);
 	}
 
+	const storedConfig = stored?.config ?? {};
 	const config: InteractionsDeployConfig = { ...DefaultConfig, ...storedConfig };
 
 	// Check if its likely the first time run, if so ask if user wants to store
-	if (Object.keys(storedConfig).length === 0 && Object.keys(overrideOptions).length === 1 && overrideOptions.global) {
+	if (
+		interactive &&
+		Object.keys(storedConfig).length === 0 &&
+		Object.keys(overrideOptions).length === 1 &&
+		overrideOptions.global
+	) {
 		console.log(chalk.blueBright('No Stored Configuration found'));
 		const cliStore = await getYesNoInput('Would you like to store the config being generated?');
 		if (cliStore) {
@@ -421,24 +1002,47 @@ async function runAsync() {
 
 	mergeOverrides(config, overrideOptions);
 
+	if (!interactive) {
+		const missing = getMissingSettings(config);
+		if (missing.length) {
+			console.error(
+				chalk`{redBright Error} Missing required settings, cannot prompt for them in non-interactive mode:`,
+			);
+			for (const setting of missing) {
+				console.error(`  - ${setting}`);
+			}
+
+			return ExitCode.ConfigError;
+		}
+	}
+
 	/* eslint-disable require-atomic-updates */
 	// Collect client id if not stored or provided
-	if (!('clientId' in config)) {
+	if (subcommand !== 'validate' && !('clientId' in config) && !config.applications?.length) {
 		config.clientId = await getInput({
 			query: 'Please enter the Application / Client ID found in the developer portal',
 			validator: (input) => input.length >= 16 && input.length <= 20,
 		});
 	}
 
-	// Collect token if not stored or provided
-	// At this time, client credential token is not supported
-	if (!('token' in config)) {
+	// Collect token if not stored or provided, a client secret or bearer token can only be provided up front
+	if (subcommand !== 'validate' && !config.applications?.length && !hasCredentials(config)) {
 		config.token = await getInput({
 			query: 'Please enter the bot token found in the developer portal',
 			validator: (input) => input.length >= 26,
 		});
 	}
 
+	if (subcommand === 'list') {
+		closePrompt();
+		return listAsync(config);
+	}
+
+	if (subcommand === 'pull') {
+		closePrompt();
+		return pullAsync(config, store, stored);
+	}
+
 	// Determine whether or not we need to go through the destination set up flow
 	let wantsDestinations = !overrideOptions.global;
 	// Collect command file location if not provided and not store in some manner
@@ -478,15 +1082,16 @@ async function runAsync() {
 
 	//
 	if (config.commands !== undefined) {
-		const { commands, finalCommands, error } = await getCommands(
+		const { commands, finalCommands, error, failures } = await getCommands(
 			config.commands,
 			!overrideOptions.global,
 			config.debug ?? false,
 			config.namedExport,
 		);
-		if (error) {
-			prompt.close();
-			process.exit(1);
+		outputLoadFailures(failures, config.strict ?? false);
+		if (error || (config.strict && failures.length)) {
+			closePrompt();
+			process.exit(ExitCode.ConfigError);
 		}
 
 		if (commands !== undefined) {
@@ -498,6 +1103,19 @@ async function runAsync() {
 		}
 	}
 
+	if (subcommand === 'validate') {
+		closePrompt();
+		const definitions = [...(config.commandDefinitions ?? []), ...deployableCommands.map((conf) => conf.command)];
+		const errors = validateCommands(definitions);
+		if (errors.length) {
+			outputValidationErrors(errors);
+			return ExitCode.ConfigError;
+		}
+
+		console.log(chalk`{greenBright Valid} All command definitions (${definitions.length}) are within discord's limits`);
+		return ExitCode.Success;
+	}
+
 	// Destination set up flow if not stored in config, not in dev mode (single guild id),
 	// or if global deployment was negated and the deployable commands do not have any guild ids
 	if (
@@ -555,99 +1173,141 @@ async function runAsync() {
 		}
 	}
 
-	if (deployableCommands.length === 0) {
-		deployableCommands = config.commandDefinitions!.map((command) => {
-			const conf: ApplicationCommandConfig<RESTPostAPIApplicationCommandsJSONBody> = {
-				command,
-				global: overrideOptions.global,
-				guildIds: [],
-			};
-			if (config.commandDestinations) {
-				for (const [guild, deployConfig] of Object.entries(config.commandDestinations)) {
-					if (!deployConfig) continue;
-					if (guild === 'global') {
-						if (!overrideOptions.global) continue;
-						conf.global = deployConfig.some(
-							(confCommand) =>
-								confCommand.name === command.name &&
-								(confCommand.type ?? ApplicationCommandType.ChatInput) ===
-									(command.type ?? ApplicationCommandType.ChatInput),
-						);
-						continue;
-					}
-
-					if (
-						deployConfig.some(
-							(confCommand) =>
-								confCommand.name === command.name &&
-								(confCommand.type ?? ApplicationCommandType.ChatInput) ===
-									(command.type ?? ApplicationCommandType.ChatInput),
-						)
-					) {
-						conf.guildIds!.push(guild);
-					}
-				}
-			}
-
-			return conf;
-		});
-	}
+	// Every application target is deployed with the base config merged with its own settings
+	const multiple = Boolean(config.applications?.length);
+	const targets = getTargets(config);
+	// Commands from paths with destinations are deployed the same way to every application
+	const targetCommands = targets.map((target) =>
+		deployableCommands.length
+			? deployableCommands
+			: getDestinationCommands(config.commandDefinitions!, target.commandDestinations),
+	);
+	for (const [index, target] of targets.entries()) {
+		const forApplication = multiple ? ` for ${target.clientId!}` : '';
+		if (target.developer && !('devGuildId' in target)) {
+			target.devGuildId = await getInput({
+				query: chalk`{green Developer Mode Enabled}, please provide an id for the guild to deploy commands to${forApplication}`,
+				validator: (input) => input.length >= 16 && input.length <= 20,
+			});
+		}
 
-	if (config.developer && !('devGuildId' in config)) {
-		config.devGuildId = await getInput({
-			query: chalk`{green Developer Mode Enabled}, please provide an id for the guild to deploy commands to`,
-			validator: (input) => input.length >= 16 && input.length <= 20,
-		});
+		if (
+			subcommand === 'deploy' &&
+			!target.dryRun &&
+			!('permissionsToken' in target) &&
+			targetCommands[index]!.some((conf) => Object.keys(conf.permissions ?? {}).length > 0)
+		) {
+			target.permissionsToken = await getInput({
+				query: `Please enter a bearer token with the applications.commands.permissions.update scope${forApplication}`,
+				validator: (input) => input.length > 0,
+			});
+		}
 	}
 
 	/* eslint-enable require-atomic-updates */
 
 	if (store) {
-		storeConfig(config, store);
+		storeConfig(config, store, stored);
 	}
 
-	let results: DeployResponse | null = null;
+	// Catch invalid definitions before any API call, rather than as an error per command
+	// A definition deployed by several applications is only validated once
+	const errors = validateCommands([
+		...new Set(targetCommands.flatMap((commands) => commands.map((conf) => conf.command))),
+	]);
+	if (errors.length) {
+		outputValidationErrors(errors);
+		closePrompt();
+		return ExitCode.ConfigError;
+	}
 
-	const deployReady: CommandMap = new Map([
-		[
-			ApplicationCommandType.ChatInput,
-			deployableCommands.filter(
-				(command) => (command.command.type ?? ApplicationCommandType.ChatInput) === ApplicationCommandType.ChatInput,
-			),
-		],
-		[
-			ApplicationCommandType.User,
-			deployableCommands.filter((command) => command.command.type === ApplicationCommandType.User),
-		],
-		[
-			ApplicationCommandType.Message,
-			deployableCommands.filter((command) => command.command.type === ApplicationCommandType.Message),
-		],
-	]) as CommandMap;
-	results = await deploy({
-		applicationId: config.clientId!,
-		bulkOverwrite: config.bulkOverwrite,
-		commands: deployReady,
-		devGuildId: config.developer ? config.devGuildId : undefined,
-		dryRun: config.dryRun,
-		force: config.force,
-		token: config.token!,
-	});
+	const json = config.output === 'json';
+	const deployConfigs = targets.map((target, index) => getDeployConfig(target, targetCommands[index]!, json));
+	let exitCode: ExitCode;
+	if (subcommand === 'diff') {
+		const plans = await planApplications(deployConfigs);
+		const applicationPlans = new Map<Snowflake, DeployPlan>();
+		const exitCodes: ExitCode[] = [];
+		for (const [applicationId, plan] of plans) {
+			if (plan) {
+				applicationPlans.set(applicationId, plan);
+				exitCodes.push(getPlanExitCode(plan, failOnChanges));
+			} else {
+				console.error(`No commands found to compare${multiple ? ` for ${applicationId}` : ''}!`);
+				exitCodes.push(ExitCode.ConfigError);
+			}
+		}
+
+		if (applicationPlans.size) {
+			const [plan] = applicationPlans.values();
+			outputJSON(
+				multiple ? serializeApplicationPlans(applicationPlans) : serializePlan(plan!),
+				json,
+				config.outputFile,
+			);
+			if (!json) {
+				for (const [applicationId, applicationPlan] of applicationPlans) {
+					if (multiple) outputApplicationHeader(applicationId);
+					outputPlan(applicationPlan, config.debug ?? false);
+				}
+			}
+		}
 
-	if (results === null) {
-		console.log('No commands found to deploy!');
+		exitCode = getCombinedExitCode(exitCodes);
 	} else {
-		outputResults(
-			results,
-			config.debug ?? false,
-			config.dryRun ?? false,
-			config.full ?? false,
-			!(config.summary ?? true),
-		);
+		const deployed = await deployApplications(deployConfigs);
+		const applicationResults = new Map<Snowflake, DeployResponse>();
+		const exitCodes: ExitCode[] = [];
+		for (const [applicationId, results] of deployed) {
+			if (results) {
+				applicationResults.set(applicationId, results);
+				exitCodes.push(getDeployExitCode(results));
+			} else {
+				console.error(`No commands found to deploy${multiple ? ` for ${applicationId}` : ''}!`);
+				exitCodes.push(ExitCode.ConfigError);
+			}
+		}
+
+		if (applicationResults.size) {
+			const [results] = applicationResults.values();
+			outputJSON(
+				multiple ? serializeApplicationResults(applicationResults) : serializeResults(results!),
+				json,
+				config.outputFile,
+			);
+			if (!json) {
+				for (const [applicationId, applicationResult] of applicationResults) {
+					if (multiple) outputApplicationHeader(applicationId);
+					outputResults(
+						applicationResult,
+						config.debug ?? false,
+						config.dryRun ?? false,
+						config.full ?? false,
+						!(config.summary ?? true),
+					);
+				}
+			}
+		}
+
+		exitCode = getCombinedExitCode(exitCodes);
 	}
 
 	// Close at end to not "close" the program, communicating unfinished state
-	prompt.close();
+	closePrompt();
+	return exitCode;
+}
+
+async function main() {
+	let exitCode: ExitCode;
+	try {
+		exitCode = await runAsync();
+	} catch (error) {
+		console.error(error);
+		closePrompt();
+		exitCode = getErrorExitCode(error);
+	}
+
+	process.exitCode = exitCode;
 }
 
-void runAsync().catch(console.error);
+void main();
@@ -1,5 +1,11 @@
 export * from './lib/Deploy.js';
 export * from './bin/deploy-interactions.js';
+export * from './lib/Diff.js';
+export * from './lib/ExitCode.js';
+export * from './lib/OAuth2.js';
+export * from './lib/Pull.js';
+export * from './lib/Serializer.js';
 export * from './lib/Util.js';
+export * from './lib/Validator.js';
 export * from 'discord-api-types/v10';
 export { default } from './lib/Deploy.js';
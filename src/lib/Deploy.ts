@@ -1,18 +1,26 @@
-import { type DiscordAPIError, type HTTPError, REST } from '@discordjs/rest';
+import { EventEmitter } from 'node:events';
+import { type DiscordAPIError, type HTTPError, type RateLimitData, REST, RESTEvents } from '@discordjs/rest';
 import chalk from 'chalk';
 import {
 	type APIApplicationCommand,
+	type APIApplicationCommandPermission,
 	ApplicationCommandType,
 	type RESTGetAPIApplicationCommandsResult,
+	type RESTGetAPIGuildApplicationCommandsPermissionsResult,
+	type RESTPatchAPIApplicationCommandResult,
 	type RESTPostAPIApplicationCommandsJSONBody,
 	type RESTPostAPIApplicationCommandsResult,
 	type RESTPostAPIChatInputApplicationCommandsJSONBody,
 	type RESTPostAPIContextMenuApplicationCommandsJSONBody,
+	type RESTPostAPIPrimaryEntryPointApplicationCommandJSONBody,
 	type RESTPutAPIApplicationCommandsResult,
 	Routes,
 	type Snowflake,
 } from 'discord-api-types/v10';
-import { commandEquals } from './Util.js';
+import { type CommandChange, diffCommand, getCommandPatch } from './Diff.js';
+import { ConfigurationError } from './ExitCode.js';
+import { getClientCredentialsToken } from './OAuth2.js';
+import { permissionsEqual } from './Util.js';
 
 /**
  * The configuration for a command to be deployed
@@ -26,10 +34,19 @@ export interface ApplicationCommandConfig<CommandType extends RESTPostAPIApplica
 	 * Whether to deploy the command globally
 	 */
 	global: boolean;
+	/**
+	 * The definition to deploy globally instead of the command, for settings that only apply to global commands
+	 */
+	globalCommand?: CommandType | undefined;
 	/**
 	 * The ids of the guilds for which the command should be deployed as a guild command
 	 */
 	guildIds?: Snowflake[] | undefined;
+	/**
+	 * The permission overwrites of the command, keyed by the id of the guild they apply in.
+	 * They are applied to the guild command when the command is deployed to that guild, otherwise to the global command
+	 */
+	permissions?: Record<Snowflake, APIApplicationCommandPermission[]> | undefined;
 }
 
 /**
@@ -41,17 +58,53 @@ export interface CommandMap
 			key: ApplicationCommandType.Message | ApplicationCommandType.User,
 		) => ApplicationCommandConfig<RESTPostAPIContextMenuApplicationCommandsJSONBody>[] | undefined) & ((
 		key: ApplicationCommandType.ChatInput,
-	) => ApplicationCommandConfig<RESTPostAPIChatInputApplicationCommandsJSONBody>[] | undefined);
+	) => ApplicationCommandConfig<RESTPostAPIChatInputApplicationCommandsJSONBody>[] | undefined) & ((
+		key: ApplicationCommandType.PrimaryEntryPoint,
+	) => ApplicationCommandConfig<RESTPostAPIPrimaryEntryPointApplicationCommandJSONBody>[] | undefined);
 }
 
 /**
- * The raw configuration used to deploy commands
+ * The options used to create a {@link Deployer}
  */
-export interface DeployConfig {
+export interface DeployerOptions {
 	/**
 	 * The id of the application to deploy the commands to
 	 */
 	applicationId: Snowflake;
+	/**
+	 * A bearer token used to deploy commands instead of a bot token
+	 */
+	bearerToken?: string | undefined;
+	/**
+	 * The client secret of the application, exchanged for a bearer token (with the `applications.commands.update` scope)
+	 * before the first deploy or plan, used instead of a bot token
+	 */
+	clientSecret?: string | undefined;
+	/**
+	 * The logger used to output deploy progress
+	 *
+	 * @defaultValue console
+	 */
+	logger?: DeployLogger | undefined;
+	/**
+	 * The bearer token of a user with permission to manage the guilds, required to deploy command permissions
+	 */
+	permissionsToken?: string | undefined;
+	/**
+	 * The REST instance used to call the API, a new instance is created when not provided.
+	 * When using a bearer token or client secret with your own instance, it should be created with `authPrefix: 'Bearer'`
+	 */
+	rest?: REST | undefined;
+	/**
+	 * The bot token used to deploy commands, not needed when the provided REST instance already has a token
+	 */
+	token?: string | undefined;
+}
+
+/**
+ * The options for a single deploy (or plan) with a {@link Deployer}
+ */
+export interface DeployOptions {
 	/**
 	 * Whether to overwrite all commands using a single API call for global, and per guild
 	 * This is always a forced operation, setting force
@@ -61,6 +114,13 @@ export interface DeployConfig {
 	 * The commands to register
 	 */
 	commands: CommandMap;
+	/**
+	 * The maximum number of guilds to deploy to at the same time, the REST instance still queues requests
+	 * per rate limit bucket. Results are always ordered as if the guilds were deployed to one at a time
+	 *
+	 * @defaultValue 1
+	 */
+	concurrency?: number | undefined;
 	/**
 	 * A guild id to deploy all commmands to which, when provided,
 	 * deploys all commands regardless of global or guildIds to the specified guild
@@ -75,9 +135,36 @@ export interface DeployConfig {
 	 */
 	force?: boolean | undefined;
 	/**
-	 * The bot token used to deploy commands
+	 * Whether to delete commands that exist in a destination but are not part of the commands being deployed there.
+	 * Every destination with commands to deploy is pruned, along with the destinations in pruneDestinations
 	 */
-	token: string;
+	prune?: boolean | undefined;
+	/**
+	 * The destinations to prune even when no commands are deployed to them anymore, such as guilds commands were
+	 * previously deployed to, so their remaining commands are deleted.
+	 * By default global is always pruned, so pruning a deploy of only guild commands also deletes every global command,
+	 * pass the destinations being deployed to (or an empty array) to avoid that
+	 *
+	 * @defaultValue ['global']
+	 */
+	pruneDestinations?: DeployDestination[] | undefined;
+}
+
+/**
+ * The raw configuration used to deploy commands
+ */
+export interface DeployConfig extends DeployerOptions, DeployOptions {
+	/**
+	 * Whether to suppress all progress logging, the same as using a logger that does nothing
+	 */
+	silent?: boolean | undefined;
+}
+
+/**
+ * Outputs the progress of a deploy, `console` is used by default
+ */
+export interface DeployLogger {
+	log(...data: unknown[]): void;
 }
 
 /**
@@ -89,9 +176,10 @@ export interface DeployResponse {
 	 */
 	dev?: Snowflake;
 	/**
-	 * If the entire process was halted due to unauth or similar, the error that was encountered
+	 * If the entire process was halted due to unauth or similar, the error that was encountered.
+	 * When deploying to several applications, any error thrown for an application
 	 */
-	error?: DiscordAPIError | HTTPError;
+	error?: DiscordAPIError | Error | HTTPError;
 	/**
 	 * The global response, if any
 	 */
@@ -111,17 +199,33 @@ export interface SingleDeployResponse {
 	 */
 	bulkError?: DiscordAPIError | HTTPError;
 	/**
-	 * The commands as received from discord
+	 * The commands that were created (or overwritten when forced or bulk overwriting) as received from discord
 	 */
 	commands: APIApplicationCommand[];
+	/**
+	 * The commands that were deleted as they no longer exist locally
+	 */
+	deleted: APIApplicationCommand[];
 	/**
 	 * The commands that failed to deploy
 	 */
 	errored: ErroredCommand[];
+	/**
+	 * The existing commands that failed to be deleted when pruning
+	 */
+	failedDeletes: FailedDelete[];
+	/**
+	 * The results of deploying the permission overwrites of the commands in this destination
+	 */
+	permissions: CommandPermissionsResult[];
 	/**
 	 * The skipped commands
 	 */
 	skipped: SkippedCommand[];
+	/**
+	 * The existing commands that were edited to match their definitions
+	 */
+	updated: UpdatedCommand[];
 }
 
 /**
@@ -136,12 +240,72 @@ export interface ErroredCommand {
 	 * The error that was received while deploying the command
 	 */
 	error: DiscordAPIError | HTTPError;
+	/**
+	 * The existing command from the API, set for commands that failed to be edited
+	 */
+	existing?: APIApplicationCommand;
 	/**
 	 * The name of the command that errored
 	 */
 	name: string;
 }
 
+/**
+ * Represents an existing command that failed to be deleted when pruning
+ */
+export interface FailedDelete {
+	/**
+	 * The error that was received while deleting the command
+	 */
+	error: DiscordAPIError | HTTPError;
+	/**
+	 * The existing command from the API
+	 */
+	existing: APIApplicationCommand;
+	/**
+	 * The name of the command that failed to be deleted
+	 */
+	name: string;
+}
+
+/**
+ * Represents the permission overwrites of a command in a single guild
+ */
+export interface CommandPermissionsResult {
+	/**
+	 * The id of the command the permissions are for
+	 */
+	commandId: Snowflake;
+	/**
+	 * The error that was received while updating the permissions
+	 */
+	error?: DiscordAPIError | HTTPError;
+	/**
+	 * The id of the guild the permissions apply in
+	 */
+	guildId: Snowflake;
+	/**
+	 * The name of the command the permissions are for
+	 */
+	name: string;
+	/**
+	 * The configured permission overwrites
+	 */
+	permissions: APIApplicationCommandPermission[];
+	/**
+	 * The permission overwrites that existed before the deploy
+	 */
+	previous: APIApplicationCommandPermission[];
+	/**
+	 * Whether the permissions were updated, already up to date (skipped) or failed to update
+	 */
+	status: 'errored' | 'skipped' | 'updated';
+	/**
+	 * The type of the command the permissions are for
+	 */
+	type: ApplicationCommandType;
+}
+
 /**
  * Represents a command that was not deployed as it was already up to date or it was a dry run
  */
@@ -164,22 +328,166 @@ export interface SkippedCommand {
 	name: string;
 }
 
-let clientId: string;
-const rest = new REST({ version: '10' });
+/**
+ * Represents an existing command that was edited as it did not match the command that was passed in
+ */
+export interface UpdatedCommand {
+	/**
+	 * The changes between the existing command and the command that was passed in
+	 */
+	changes: CommandChange[];
+	/**
+	 * The command that was passed in
+	 */
+	command: RESTPostAPIApplicationCommandsJSONBody;
+	/**
+	 * The existing command from the API, before it was edited
+	 */
+	existing: APIApplicationCommand;
+	/**
+	 * The name of the updated command
+	 */
+	name: string;
+	/**
+	 * The updated command as received from discord
+	 */
+	result: APIApplicationCommand;
+}
+
+/**
+ * The changes a deploy would make, without making them
+ */
+export interface DeployPlan {
+	/**
+	 * The id of the dev guild planned for if in dev mode
+	 */
+	dev?: Snowflake;
+	/**
+	 * If the entire process was halted due to unauth or similar, the error that was encountered.
+	 * When planning for several applications, any error thrown for an application
+	 */
+	error?: DiscordAPIError | Error | HTTPError;
+	/**
+	 * The global plan, if any
+	 */
+	global?: SingleDeployPlan;
+	/**
+	 * A map of guild ids to their individual plans
+	 */
+	guilds: Map<Snowflake, SingleDeployPlan>;
+	/**
+	 * Whether commands only existing remotely would be deleted
+	 */
+	prune: boolean;
+}
+
+/**
+ * The changes a deploy would make to a single destination, either global or guild
+ */
+export interface SingleDeployPlan {
+	/**
+	 * The commands that would be created
+	 */
+	created: RESTPostAPIApplicationCommandsJSONBody[];
+	/**
+	 * The error encountered while fetching the existing commands
+	 */
+	error?: DiscordAPIError | HTTPError;
+	/**
+	 * The existing commands that have no local definition, these would be deleted when pruning
+	 */
+	remoteOnly: APIApplicationCommand[];
+	/**
+	 * The commands that are already up to date
+	 */
+	unchanged: SkippedCommand[];
+	/**
+	 * The existing commands that would be edited
+	 */
+	updated: Omit<UpdatedCommand, 'result'>[];
+}
+
+/**
+ * The destination of a deploy, either the id of a guild or global
+ */
+export type DeployDestination = Snowflake | 'global';
+
+/**
+ * The events emitted by a {@link Deployer} while deploying, mapped to their arguments
+ */
+export interface DeployerEvents {
+	/**
+	 * A command was created (or overwritten when forced or bulk overwriting)
+	 */
+	commandCreated: [destination: DeployDestination, command: APIApplicationCommand];
+	/**
+	 * An existing command failed to be deleted when pruning
+	 */
+	commandDeleteFailed: [destination: DeployDestination, failed: FailedDelete];
+	/**
+	 * An existing command was deleted when pruning
+	 */
+	commandDeleted: [destination: DeployDestination, command: APIApplicationCommand];
+	/**
+	 * A command failed to deploy
+	 */
+	commandFailed: [destination: DeployDestination, errored: ErroredCommand];
+	/**
+	 * The permission overwrites of a command were updated, skipped as up to date or failed to update
+	 */
+	commandPermissions: [destination: DeployDestination, result: CommandPermissionsResult];
+	/**
+	 * A command was not deployed as it was up to date or it is a dry run
+	 */
+	commandSkipped: [destination: DeployDestination, skipped: SkippedCommand];
+	/**
+	 * An existing command was edited to match its definition
+	 */
+	commandUpdated: [destination: DeployDestination, updated: UpdatedCommand];
+	/**
+	 * All commands for a destination were handled, not emitted when the entire deploy is halted.
+	 * Permissions are deployed once all destinations are finished
+	 */
+	destinationFinished: [destination: DeployDestination, result: SingleDeployResponse];
+	/**
+	 * Deploying to a destination started
+	 */
+	destinationStart: [destination: DeployDestination, commands: RESTPostAPIApplicationCommandsJSONBody[]];
+	/**
+	 * A request was rate limited and will be retried once the limit resets
+	 */
+	rateLimited: [rateLimitInfo: RateLimitData];
+}
+
+export interface Deployer {
+	emit<K extends keyof DeployerEvents>(event: K, ...args: DeployerEvents[K]): boolean;
+	off<K extends keyof DeployerEvents>(event: K, listener: (...args: DeployerEvents[K]) => void): this;
+	on<K extends keyof DeployerEvents>(event: K, listener: (...args: DeployerEvents[K]) => void): this;
+	once<K extends keyof DeployerEvents>(event: K, listener: (...args: DeployerEvents[K]) => void): this;
+}
+
+/**
+ * A logger that discards all output, used when deploying silently
+ */
+const SilentLogger: DeployLogger = {
+	log() {},
+};
 
 /**
  * Separates global commands from guild commands based on their configuration
  *
  * @param commands - The command configurations to separate
+ * @param emptyDestinations - The destinations whose guilds are included even if no commands are deployed to them
  * @returns An array of global commands and the map of guilds to their commands
  */
 function separateGlobalGuild<T extends RESTPostAPIApplicationCommandsJSONBody>(
 	commands: ApplicationCommandConfig<T>[],
+	emptyDestinations: DeployDestination[] = [],
 ) {
 	const globalCommands: T[] = [];
 	const guildCommands = new Map<Snowflake, T[]>();
 	for (const command of commands) {
-		if (command.global) globalCommands.push(command.command);
+		if (command.global) globalCommands.push(command.globalCommand ?? command.command);
 		if (command.guildIds?.length) {
 			for (const id of command.guildIds) {
 				if (!guildCommands.has(id)) {
@@ -191,87 +499,799 @@ function separateGlobalGuild<T extends RESTPostAPIApplicationCommandsJSONBody>(
 		}
 	}
 
+	for (const id of emptyDestinations) {
+		if (id !== 'global' && !guildCommands.has(id)) guildCommands.set(id, []);
+	}
+
 	return { globalCommands, guildCommands };
 }
 
 /**
- * Deploys a set of commands globally or to the specified guild
+ * Flattens the command map into a single list of command configurations
  *
- * @param commands - The commands to deploy
- * @param force - Whether to skip fetching the existing commands and checking equality
- * @param bulk - Whether to overwrite all commands in scope
- * @param dryRun - Whether to perform a dry run (does not hit the Discord API)
- * @param guildId - The id of the guild to deploy to
- * @returns The status and data of the deploy
+ * @param commands - The command map to flatten
  */
-async function deploySingleDestination(
-	commands: RESTPostAPIApplicationCommandsJSONBody[],
-	force: boolean,
-	bulk: boolean,
-	dryRun: boolean,
-	guildId?: Snowflake,
-): Promise<SingleDeployResponse> {
-	const route = guildId ? Routes.applicationGuildCommands(clientId, guildId) : Routes.applicationCommands(clientId);
-	console.log(`${bulk ? chalk.red('Overwriting') : 'Deploying'} commands ${guildId ? `to ${guildId}` : 'globally'}.`);
-	if (dryRun) {
-		if (bulk) {
-			console.log(chalk`{greenBright Successfully} bulk updated.`);
-		} else {
-			console.log(`Finished ${guildId ? `guild (${guildId})` : 'global'} deploy`);
+function getAllCommands(commands: CommandMap) {
+	const chatCommands = commands.get(ApplicationCommandType.ChatInput) ?? [];
+	const userCommands = commands.get(ApplicationCommandType.User) ?? [];
+	const messageCommands = commands.get(ApplicationCommandType.Message) ?? [];
+	const entryPointCommands = commands.get(ApplicationCommandType.PrimaryEntryPoint) ?? [];
+	return [...chatCommands, ...userCommands, ...messageCommands, ...entryPointCommands];
+}
+
+/**
+ * Runs a task for each item with at most a set number of tasks running at once
+ *
+ * @param items - The items to run the task for
+ * @param concurrency - The maximum number of tasks running at once
+ * @param task - The task to run
+ * @param shouldHalt - Checks whether a result should stop any further tasks from starting
+ * @returns The results in the same order as the items, undefined for items whose task never started
+ */
+async function mapConcurrent<T, R>(
+	items: T[],
+	concurrency: number,
+	task: (item: T) => Promise<R>,
+	shouldHalt: (result: R) => boolean,
+): Promise<(R | undefined)[]> {
+	const results: (R | undefined)[] = Array.from({ length: items.length });
+	let next = 0;
+	let halted = false;
+	const worker = async () => {
+		while (!halted && next < items.length) {
+			const index = next++;
+			const result = await task(items[index]!);
+			results[index] = result;
+			// Halting only ever goes from false to true, so other workers finishing in between does not matter
+			// eslint-disable-next-line require-atomic-updates
+			if (shouldHalt(result)) halted = true;
+		}
+	};
+
+	const workers = Number.isInteger(concurrency) && concurrency > 1 ? Math.min(concurrency, items.length) : 1;
+	await Promise.all(Array.from({ length: workers }, worker));
+	return results;
+}
+
+/**
+ * Checks whether an existing command is the remote counterpart of a command definition (same name and type)
+ *
+ * @param existing - The command received from discord
+ * @param command - The command definition
+ */
+function isSameCommand(existing: APIApplicationCommand, command: RESTPostAPIApplicationCommandsJSONBody) {
+	return (command.type ?? ApplicationCommandType.ChatInput) === existing.type && command.name === existing.name;
+}
+
+/**
+ * Finds the deployed counterpart of a command definition in the results of a deploy to a single destination
+ *
+ * @param result - The results of the deploy
+ * @param command - The command definition
+ */
+function findDeployedCommand(result: SingleDeployResponse, command: RESTPostAPIApplicationCommandsJSONBody) {
+	const deployed = [
+		...result.commands,
+		...result.updated.map((update) => update.result),
+		...result.skipped.flatMap((skip) => (skip.existing ? [skip.existing] : [])),
+	];
+	return deployed.find((existing) => isSameCommand(existing, command));
+}
+
+/**
+ * Deploys application commands for a single application, each instance uses its own REST instance and logger
+ * so multiple applications can be deployed to in the same process. Progress is emitted as {@link DeployerEvents}
+ */
+export class Deployer extends EventEmitter {
+	/**
+	 * The id of the application commands are deployed to
+	 */
+	public readonly applicationId: Snowflake;
+
+	/**
+	 * The REST instance used to call the API
+	 */
+	public readonly rest: REST;
+
+	private readonly logger: DeployLogger;
+
+	private readonly clientSecret: string | undefined;
+
+	private authorization: Promise<void> | undefined;
+
+	private readonly permissionsToken: string | undefined;
+
+	private readonly onRateLimited = (rateLimitInfo: RateLimitData) => this.emit('rateLimited', rateLimitInfo);
+
+	/**
+	 * The number of deploys, plans and fetches running, rate limits are forwarded while any are
+	 */
+	private running = 0;
+
+	public constructor({
+		applicationId,
+		bearerToken,
+		clientSecret,
+		logger = console,
+		permissionsToken,
+		rest,
+		token,
+	}: DeployerOptions) {
+		super();
+		this.applicationId = applicationId;
+		this.clientSecret = clientSecret;
+		this.logger = logger;
+		this.permissionsToken = permissionsToken;
+		this.rest = rest ?? new REST({ version: '10', authPrefix: bearerToken || clientSecret ? 'Bearer' : 'Bot' });
+		const authToken = bearerToken ?? token;
+		if (authToken) this.rest.setToken(authToken);
+	}
+
+	// Options docs are in DeployOptions interface
+	/* eslint-disable jsdoc/check-param-names */
+	/**
+	 * Deploys a set of application commands
+	 *
+	 * @param options - The options for deploying
+	 * @returns The results of the deploy
+	 */
+	/* eslint-enable jsdoc/check-param-names */
+	public async deploy({
+		bulkOverwrite = false,
+		commands,
+		concurrency = 1,
+		devGuildId,
+		dryRun = false,
+		force = false,
+		prune = false,
+		pruneDestinations = ['global'],
+	}: DeployOptions): Promise<DeployResponse | null> {
+		return this.forwardRateLimits(async () => {
+			const error = dryRun ? undefined : await this.authorize();
+			if (error) return { guilds: new Map(), error };
+			return this.deployAll(bulkOverwrite, commands, concurrency, devGuildId, dryRun, force, prune, pruneDestinations);
+		});
+	}
+
+	// Options docs are in DeployOptions interface
+	/* eslint-disable jsdoc/check-param-names */
+	/**
+	 * Determines the changes deploying a set of application commands would make, only fetching existing commands
+	 *
+	 * @param options - The options for deploying, bulkOverwrite, dryRun and force are ignored
+	 * @returns The planned changes
+	 */
+	/* eslint-enable jsdoc/check-param-names */
+	public async plan({
+		commands,
+		concurrency = 1,
+		devGuildId,
+		prune = false,
+		pruneDestinations = ['global'],
+	}: DeployOptions): Promise<DeployPlan | null> {
+		return this.forwardRateLimits(async () => {
+			const error = await this.authorize();
+			if (error) return { guilds: new Map(), error, prune };
+			return this.planAll(commands, concurrency, devGuildId, prune, pruneDestinations);
+		});
+	}
+
+	/**
+	 * Fetches the commands currently deployed to each destination, rejecting with the error of the client secret
+	 * exchange or of the first fetch that failed
+	 *
+	 * @param destinations - The destinations to fetch the commands of, `global` for the global commands
+	 * @returns The deployed commands of each destination, in the order of the destinations
+	 */
+	public async fetch(destinations: DeployDestination[]): Promise<Map<DeployDestination, APIApplicationCommand[]>> {
+		return this.forwardRateLimits(async () => {
+			const error = await this.authorize();
+			if (error) throw error;
+			const commands = new Map<DeployDestination, APIApplicationCommand[]>();
+			for (const destination of destinations) {
+				const guildId = destination === 'global' ? undefined : destination;
+				this.log(`Fetching commands ${guildId ? `from ${guildId}` : 'globally'}.`);
+				commands.set(
+					destination,
+					(await this.rest.get(this.getCommandsRoute(guildId))) as RESTGetAPIApplicationCommandsResult,
+				);
+			}
+
+			return commands;
+		});
+	}
+
+	/**
+	 * Logs deploy progress using the configured logger
+	 *
+	 * @param data - The data to log
+	 */
+	private log(...data: unknown[]) {
+		this.logger.log(...data);
+	}
+
+	/**
+	 * Exchanges the client secret for a bearer token the first time it is needed, retrying the exchange if it failed
+	 *
+	 * @returns The error of the exchange, if it failed
+	 */
+	private async authorize(): Promise<DiscordAPIError | HTTPError | undefined> {
+		if (!this.clientSecret) return undefined;
+		this.authorization ??= this.exchangeClientSecret(this.clientSecret);
+		try {
+			await this.authorization;
+			return undefined;
+		} catch (error) {
+			this.authorization = undefined;
+			return error as DiscordAPIError | HTTPError;
 		}
+	}
 
-		return { skipped: commands.map((command) => ({ name: command.name, command })), errored: [], commands: [] };
+	/**
+	 * Exchanges the client secret for a bearer token and uses it for all further requests
+	 *
+	 * @param clientSecret - The client secret of the application
+	 */
+	private async exchangeClientSecret(clientSecret: string) {
+		const { access_token } = await getClientCredentialsToken({ clientId: this.applicationId, clientSecret }, this.rest);
+		this.rest.setToken(access_token);
 	}
 
-	if (bulk) {
-		// A promise rejection here is handled by the callee
-		const result = (await rest.put(route, { body: commands })) as RESTPutAPIApplicationCommandsResult;
-		console.log(chalk`{greenBright Successfully} bulk updated.`);
-		return { skipped: [], errored: [], commands: result };
+	/**
+	 * Emits the rate limits of the REST instance as this deployer's own while running a deploy or plan.
+	 * The listener is only added by the first of several concurrent runs and removed once the last one finishes
+	 *
+	 * @param run - The deploy or plan to run
+	 */
+	private async forwardRateLimits<T>(run: () => Promise<T>): Promise<T> {
+		if (this.running++ === 0) this.rest.on(RESTEvents.RateLimited, this.onRateLimited);
+		try {
+			return await run();
+		} finally {
+			if (--this.running === 0) this.rest.off(RESTEvents.RateLimited, this.onRateLimited);
+		}
 	}
 
-	let existingCommands: RESTGetAPIApplicationCommandsResult = [];
-	if (!force) {
-		// A promise rejection here is handled by the callee
-		existingCommands = (await rest.get(route)) as RESTGetAPIApplicationCommandsResult;
+	/**
+	 * Deploys a set of application commands to all of their destinations
+	 *
+	 * @param bulkOverwrite - Whether to overwrite all commands in each destination
+	 * @param commands - The commands to deploy
+	 * @param concurrency - The maximum number of guilds to deploy to at the same time
+	 * @param devGuildId - The guild to deploy all commands to in dev mode
+	 * @param dryRun - Whether to perform a dry run (does not hit the Discord API)
+	 * @param force - Whether to skip fetching the existing commands and checking equality
+	 * @param prune - Whether to delete existing commands that are not in the commands to deploy
+	 * @param pruneDestinations - The destinations to prune even without commands to deploy
+	 * @returns The results of the deploy
+	 */
+	private async deployAll(
+		bulkOverwrite: boolean,
+		commands: CommandMap,
+		concurrency: number,
+		devGuildId: Snowflake | undefined,
+		dryRun: boolean,
+		force: boolean,
+		prune: boolean,
+		pruneDestinations: DeployDestination[],
+	): Promise<DeployResponse | null> {
+		if (dryRun) {
+			this.log(chalk.magentaBright('This is a dry run, all logs suggesting an API call are not actually making calls'));
+		}
+
+		const allCommands = getAllCommands(commands);
+		if (allCommands.length === 0) {
+			return null;
+		}
+
+		// Permissions are only deployed after their commands, which never happens in a dry run
+		const deployPermissions =
+			!dryRun && allCommands.some((definition) => Object.keys(definition.permissions ?? {}).length > 0);
+		if (deployPermissions && !this.permissionsToken) {
+			throw new ConfigurationError('A permissions token is required to deploy command permissions');
+		}
+
+		// Deploy in Dev mode
+		if (devGuildId) {
+			this.log(
+				chalk.blueBright(`Operating in dev mode, all ${allCommands.length} commands deploying to ${devGuildId}.`),
+			);
+			const deployed = await this.deploySingleDestination(
+				allCommands.map((definition) => definition.command),
+				force,
+				bulkOverwrite,
+				dryRun,
+				prune,
+				devGuildId,
+			).catch((error) => error as DiscordAPIError | HTTPError);
+			if (deployed instanceof Error) {
+				if ([401, 403, 404].includes(deployed.status)) return { guilds: new Map(), error: deployed, dev: devGuildId };
+				const failed = {
+					bulkError: deployed,
+					errored: [],
+					failedDeletes: [],
+					skipped: [],
+					commands: [],
+					deleted: [],
+					permissions: [],
+					updated: [],
+				};
+				this.emit('destinationFinished', devGuildId, failed);
+				return {
+					guilds: new Map<string, SingleDeployResponse>([[devGuildId, failed]]),
+					dev: devGuildId,
+				};
+			}
+
+			this.emit('destinationFinished', devGuildId, deployed);
+			const devResponse = { guilds: new Map<string, SingleDeployResponse>([[devGuildId, deployed]]), dev: devGuildId };
+			if (deployPermissions) await this.deployAllPermissions(allCommands, devResponse);
+			return devResponse;
+		}
+
+		// Separate commands into their destinations
+		const response: DeployResponse = {
+			guilds: new Map(),
+		};
+		const { globalCommands, guildCommands: guildCommandsMap } =
+			separateGlobalGuild<RESTPostAPIApplicationCommandsJSONBody>(allCommands, prune ? pruneDestinations : []);
+		// Deploy Global commands
+		if (globalCommands.length > 0 || (prune && pruneDestinations.includes('global'))) {
+			const deployed = await this.deploySingleDestination(globalCommands, force, bulkOverwrite, dryRun, prune).catch(
+				(error) => error as DiscordAPIError | HTTPError,
+			);
+			if (deployed instanceof Error) {
+				// If the error is unauth or the unlikely 403 / 404, stop all future requests
+				if ([401, 403, 404].includes(deployed.status)) return { ...response, error: deployed };
+				response.global = {
+					bulkError: deployed,
+					errored: [],
+					failedDeletes: [],
+					skipped: [],
+					commands: [],
+					deleted: [],
+					permissions: [],
+					updated: [],
+				};
+			} else {
+				response.global = deployed;
+			}
+
+			this.emit('destinationFinished', 'global', response.global);
+		}
+
+		// Deploy Guild Commands
+		const guildIds = [...guildCommandsMap.keys()];
+		const results = await mapConcurrent(
+			guildIds,
+			concurrency,
+			async (guildId) => {
+				const deployed = await this.deploySingleDestination(
+					guildCommandsMap.get(guildId)!,
+					force,
+					bulkOverwrite,
+					dryRun,
+					prune,
+					guildId,
+				).catch((error) => error as DiscordAPIError | HTTPError);
+				if (deployed instanceof Error) {
+					// If the error is unauth, stop all future requests, 403 / 404 here can be different per guild
+					if (deployed.status === 401) return deployed;
+					const failed = {
+						bulkError: deployed,
+						errored: [],
+						failedDeletes: [],
+						skipped: [],
+						commands: [],
+						deleted: [],
+						permissions: [],
+						updated: [],
+					};
+					this.emit('destinationFinished', guildId, failed);
+					return failed;
+				}
+
+				this.emit('destinationFinished', guildId, deployed);
+				return deployed;
+			},
+			(result) => result instanceof Error,
+		);
+		// Guilds that finished while others were running are kept, as their commands were deployed
+		for (const [index, result] of results.entries()) {
+			if (result === undefined) continue;
+			if (result instanceof Error) {
+				response.error ??= result;
+			} else {
+				response.guilds.set(guildIds[index]!, result);
+			}
+		}
+
+		if (deployPermissions && !response.error) await this.deployAllPermissions(allCommands, response);
+
+		return response;
 	}
 
-	const added: APIApplicationCommand[] = [];
-	const errored: ErroredCommand[] = [];
-	const skipped: SkippedCommand[] = [];
-	for (const command of commands) {
-		if (!force) {
-			const existing = existingCommands.find(
-				(definition) =>
-					(command.type ?? ApplicationCommandType.ChatInput) === definition.type && command.name === definition.name,
+	/**
+	 * Deploys the permission overwrites of a set of commands once the commands themselves are deployed,
+	 * the results are added to the destination each command was deployed to
+	 *
+	 * @param commands - The configurations of the deployed commands
+	 * @param response - The results of deploying the commands
+	 */
+	private async deployAllPermissions(
+		commands: ApplicationCommandConfig<RESTPostAPIApplicationCommandsJSONBody>[],
+		response: DeployResponse,
+	) {
+		// Group the permissions by the guild they apply in, along with the result of the destination of their command
+		const guildPermissions = new Map<
+			Snowflake,
+			{
+				command: RESTPostAPIApplicationCommandsJSONBody;
+				destination: DeployDestination;
+				permissions: APIApplicationCommandPermission[];
+				result: SingleDeployResponse;
+			}[]
+		>();
+		for (const config of commands) {
+			for (const [guildId, permissions] of Object.entries(config.permissions ?? {})) {
+				let destination: DeployDestination | undefined;
+				if (response.dev) {
+					if (guildId === response.dev) destination = guildId;
+				} else if (config.guildIds?.includes(guildId)) {
+					destination = guildId;
+				} else if (config.global) {
+					destination = 'global';
+				}
+
+				const result = destination === 'global' ? response.global : destination && response.guilds.get(destination);
+				if (!destination || !result) continue;
+				if (!guildPermissions.has(guildId)) guildPermissions.set(guildId, []);
+				guildPermissions.get(guildId)!.push({ command: config.command, destination, permissions, result });
+			}
+		}
+
+		for (const [guildId, entries] of guildPermissions) {
+			this.log(`Deploying command permissions in ${guildId}.`);
+			const existingPermissions = (await this.rest
+				.get(Routes.guildApplicationCommandsPermissions(this.applicationId, guildId))
+				.catch((error) => error as DiscordAPIError | HTTPError)) as
+				| DiscordAPIError
+				| HTTPError
+				| RESTGetAPIGuildApplicationCommandsPermissionsResult;
+			for (const { command, destination, permissions, result } of entries) {
+				const deployed = findDeployedCommand(result, command);
+				// The command itself failed to deploy
+				if (!deployed) continue;
+				const previous =
+					existingPermissions instanceof Error
+						? []
+						: existingPermissions.find((existing) => existing.id === deployed.id)?.permissions ?? [];
+				const base = {
+					commandId: deployed.id,
+					guildId,
+					name: deployed.name,
+					permissions,
+					previous,
+					type: deployed.type,
+				};
+				let permissionsResult: CommandPermissionsResult;
+				if (existingPermissions instanceof Error) {
+					permissionsResult = { ...base, error: existingPermissions, status: 'errored' };
+				} else if (permissionsEqual(previous, permissions)) {
+					permissionsResult = { ...base, status: 'skipped' };
+				} else {
+					// Permissions can only be edited with a bearer token, not the bot token
+					const error = await this.rest
+						.put(Routes.applicationCommandPermissions(this.applicationId, guildId, deployed.id), {
+							auth: false,
+							body: { permissions },
+							headers: { Authorization: `Bearer ${this.permissionsToken!}` },
+						})
+						.then(
+							() => undefined,
+							(error) => error as DiscordAPIError | HTTPError,
+						);
+					permissionsResult = error ? { ...base, error, status: 'errored' } : { ...base, status: 'updated' };
+				}
+
+				result.permissions.push(permissionsResult);
+				this.emit('commandPermissions', destination, permissionsResult);
+			}
+
+			this.log(`Finished command permissions in ${guildId}`);
+		}
+	}
+
+	/**
+	 * Determines the changes deploying a set of application commands to all of their destinations would make
+	 *
+	 * @param commands - The commands to plan for
+	 * @param concurrency - The maximum number of guilds to plan for at the same time
+	 * @param devGuildId - The guild to plan for in dev mode
+	 * @param prune - Whether commands only existing remotely would be deleted
+	 * @param pruneDestinations - The destinations to plan for even without commands when pruning
+	 * @returns The planned changes
+	 */
+	private async planAll(
+		commands: CommandMap,
+		concurrency: number,
+		devGuildId: Snowflake | undefined,
+		prune: boolean,
+		pruneDestinations: DeployDestination[],
+	): Promise<DeployPlan | null> {
+		const allCommands = getAllCommands(commands);
+		if (allCommands.length === 0) {
+			return null;
+		}
+
+		const response: DeployPlan = { guilds: new Map(), prune };
+		if (devGuildId) {
+			response.dev = devGuildId;
+			const planned = await this.planSingleDestination(
+				allCommands.map((definition) => definition.command),
+				devGuildId,
+			).catch((error) => error as DiscordAPIError | HTTPError);
+			if (planned instanceof Error) return { ...response, error: planned };
+			response.guilds.set(devGuildId, planned);
+			return response;
+		}
+
+		const { globalCommands, guildCommands: guildCommandsMap } =
+			separateGlobalGuild<RESTPostAPIApplicationCommandsJSONBody>(allCommands, prune ? pruneDestinations : []);
+		if (globalCommands.length > 0 || (prune && pruneDestinations.includes('global'))) {
+			const planned = await this.planSingleDestination(globalCommands).catch(
+				(error) => error as DiscordAPIError | HTTPError,
 			);
-			if (existing && commandEquals(existing, command)) {
-				skipped.push({ name: existing.name, id: existing.id, command, existing });
-				continue;
+			if (planned instanceof Error) return { ...response, error: planned };
+			response.global = planned;
+		}
+
+		const guildIds = [...guildCommandsMap.keys()];
+		const results = await mapConcurrent(
+			guildIds,
+			concurrency,
+			async (guildId) =>
+				this.planSingleDestination(guildCommandsMap.get(guildId)!, guildId).catch(
+					(error) => error as DiscordAPIError | HTTPError,
+				),
+			// If the error is unauth, stop all future requests, 403 / 404 here can be different per guild
+			(result) => result instanceof Error && result.status === 401,
+		);
+		for (const [index, planned] of results.entries()) {
+			if (planned === undefined) continue;
+			if (planned instanceof Error) {
+				if (planned.status === 401) return { ...response, error: planned };
+				response.guilds.set(guildIds[index]!, {
+					error: planned,
+					created: [],
+					remoteOnly: [],
+					unchanged: [],
+					updated: [],
+				});
+			} else {
+				response.guilds.set(guildIds[index]!, planned);
+			}
+		}
+
+		return response;
+	}
+
+	/**
+	 * Gets the route for all commands, either global or in the specified guild
+	 *
+	 * @param guildId - The id of the guild
+	 */
+	private getCommandsRoute(guildId?: Snowflake) {
+		return guildId
+			? Routes.applicationGuildCommands(this.applicationId, guildId)
+			: Routes.applicationCommands(this.applicationId);
+	}
+
+	/**
+	 * Gets the route for a single existing command, either global or in the specified guild
+	 *
+	 * @param commandId - The id of the existing command
+	 * @param guildId - The id of the guild the command is in
+	 */
+	private getCommandRoute(commandId: Snowflake, guildId?: Snowflake) {
+		return guildId
+			? Routes.applicationGuildCommand(this.applicationId, guildId, commandId)
+			: Routes.applicationCommand(this.applicationId, commandId);
+	}
+
+	/**
+	 * Deploys a set of commands globally or to the specified guild
+	 *
+	 * @param commands - The commands to deploy
+	 * @param force - Whether to skip fetching the existing commands and checking equality
+	 * @param bulk - Whether to overwrite all commands in scope
+	 * @param dryRun - Whether to perform a dry run (does not hit the Discord API)
+	 * @param prune - Whether to delete existing commands that are not in the commands to deploy
+	 * @param guildId - The id of the guild to deploy to
+	 * @returns The status and data of the deploy
+	 */
+	private async deploySingleDestination(
+		commands: RESTPostAPIApplicationCommandsJSONBody[],
+		force: boolean,
+		bulk: boolean,
+		dryRun: boolean,
+		prune: boolean,
+		guildId?: Snowflake,
+	): Promise<SingleDeployResponse> {
+		const route = this.getCommandsRoute(guildId);
+		const destination = guildId ?? 'global';
+		this.emit('destinationStart', destination, commands);
+		this.log(`${bulk ? chalk.red('Overwriting') : 'Deploying'} commands ${guildId ? `to ${guildId}` : 'globally'}.`);
+		if (dryRun) {
+			if (bulk) {
+				this.log(chalk`{greenBright Successfully} bulk updated.`);
+			} else {
+				this.log(`Finished ${guildId ? `guild (${guildId})` : 'global'} deploy`);
 			}
+
+			const skipped = commands.map((command) => ({ name: command.name, command }));
+			for (const command of skipped) this.emit('commandSkipped', destination, command);
+			return { skipped, errored: [], failedDeletes: [], commands: [], deleted: [], permissions: [], updated: [] };
+		}
+
+		if (bulk) {
+			// A promise rejection here is handled by the callee
+			const result = (await this.rest.put(route, { body: commands })) as RESTPutAPIApplicationCommandsResult;
+			this.log(chalk`{greenBright Successfully} bulk updated.`);
+			for (const command of result) this.emit('commandCreated', destination, command);
+			return {
+				skipped: [],
+				errored: [],
+				failedDeletes: [],
+				commands: result,
+				deleted: [],
+				permissions: [],
+				updated: [],
+			};
 		}
 
-		const result = (await rest
-			.post(route, { body: command })
-			.catch((error) => error as DiscordAPIError | HTTPError)) as
-			| DiscordAPIError
-			| HTTPError
-			| RESTPostAPIApplicationCommandsResult;
-		if (result instanceof Error) {
-			// Pass this up to callee as these errors indicate future requests will fail
-			if ([401, 403, 404].includes(result.status)) throw result;
-			errored.push({
-				name: command.name,
-				command,
-				error: result,
-			});
-		} else {
-			added.push(result);
+		let existingCommands: RESTGetAPIApplicationCommandsResult = [];
+		if (!force || prune) {
+			// A promise rejection here is handled by the callee
+			existingCommands = (await this.rest.get(route)) as RESTGetAPIApplicationCommandsResult;
+		}
+
+		const added: APIApplicationCommand[] = [];
+		const errored: ErroredCommand[] = [];
+		const failedDeletes: FailedDelete[] = [];
+		const skipped: SkippedCommand[] = [];
+		const updated: UpdatedCommand[] = [];
+		for (const command of commands) {
+			let existing: APIApplicationCommand | undefined;
+			let changes: CommandChange[] = [];
+			if (!force) {
+				existing = existingCommands.find((definition) => isSameCommand(definition, command));
+				if (existing) changes = diffCommand(existing, command);
+				if (existing && changes.length === 0) {
+					const skip = { name: existing.name, id: existing.id, command, existing };
+					skipped.push(skip);
+					this.emit('commandSkipped', destination, skip);
+					continue;
+				}
+			}
+
+			const request = existing
+				? this.rest.patch(this.getCommandRoute(existing.id, guildId), {
+						body: getCommandPatch(existing, command, changes),
+				  })
+				: this.rest.post(route, { body: command });
+			const result = (await request.catch((error) => error as DiscordAPIError | HTTPError)) as
+				| DiscordAPIError
+				| HTTPError
+				| RESTPatchAPIApplicationCommandResult
+				| RESTPostAPIApplicationCommandsResult;
+			if (result instanceof Error) {
+				// Pass this up to callee as these errors indicate future requests will fail
+				if ([401, 403, 404].includes(result.status)) throw result;
+				const failed: ErroredCommand = existing
+					? { name: command.name, command, existing, error: result }
+					: { name: command.name, command, error: result };
+				errored.push(failed);
+				this.emit('commandFailed', destination, failed);
+			} else if (existing) {
+				const update = { name: command.name, command, existing, result, changes };
+				updated.push(update);
+				this.emit('commandUpdated', destination, update);
+			} else {
+				added.push(result);
+				this.emit('commandCreated', destination, result);
+			}
+		}
+
+		const deleted: APIApplicationCommand[] = [];
+		if (prune) {
+			for (const existing of existingCommands) {
+				if (commands.some((command) => isSameCommand(existing, command))) continue;
+				const result = (await this.rest
+					.delete(this.getCommandRoute(existing.id, guildId))
+					.catch((error) => error as DiscordAPIError | HTTPError)) as DiscordAPIError | HTTPError | undefined;
+				if (result instanceof Error) {
+					// Pass this up to callee as these errors indicate future requests will fail
+					if ([401, 403].includes(result.status)) throw result;
+					const failed = { name: existing.name, existing, error: result };
+					failedDeletes.push(failed);
+					this.emit('commandDeleteFailed', destination, failed);
+				} else {
+					deleted.push(existing);
+					this.emit('commandDeleted', destination, existing);
+				}
+			}
+		}
+
+		this.log(`Finished ${guildId ? `guild (${guildId})` : 'global'} deploy`);
+		return { commands: added, deleted, errored, failedDeletes, permissions: [], skipped, updated };
+	}
+
+	/**
+	 * Determines the changes deploying a set of commands globally or to the specified guild would make
+	 *
+	 * @param commands - The commands to plan for
+	 * @param guildId - The id of the guild to plan for
+	 * @returns The changes that would be made
+	 */
+	private async planSingleDestination(
+		commands: RESTPostAPIApplicationCommandsJSONBody[],
+		guildId?: Snowflake,
+	): Promise<SingleDeployPlan> {
+		// A promise rejection here is handled by the callee
+		const existingCommands = (await this.rest.get(
+			this.getCommandsRoute(guildId),
+		)) as RESTGetAPIApplicationCommandsResult;
+		const plan: SingleDeployPlan = { created: [], remoteOnly: [], unchanged: [], updated: [] };
+		for (const command of commands) {
+			const existing = existingCommands.find((definition) => isSameCommand(definition, command));
+			if (!existing) {
+				plan.created.push(command);
+				continue;
+			}
+
+			const changes = diffCommand(existing, command);
+			if (changes.length === 0) {
+				plan.unchanged.push({ name: existing.name, id: existing.id, command, existing });
+			} else {
+				plan.updated.push({ name: command.name, command, existing, changes });
+			}
 		}
+
+		plan.remoteOnly = existingCommands.filter(
+			(existing) => !commands.some((command) => isSameCommand(existing, command)),
+		);
+		return plan;
 	}
+}
 
-	console.log(`Finished ${guildId ? `guild (${guildId})` : 'global'} deploy`);
-	return { commands: added, errored, skipped };
+// Config docs are in DeployConfig interace
+/* eslint-disable jsdoc/check-param-names */
+/**
+ * Determines the changes deploying a set of application commands would make, only fetching existing commands
+ *
+ * @param config - The configuration options for deploying, bulkOverwrite, dryRun and force are ignored
+ * @returns The planned changes
+ */
+/* eslint-enable jsdoc/check-param-names */
+export async function planDeploy({
+	applicationId,
+	bearerToken,
+	clientSecret,
+	logger,
+	rest,
+	silent = false,
+	token,
+	...options
+}: DeployConfig): Promise<DeployPlan | null> {
+	return new Deployer({
+		applicationId,
+		bearerToken,
+		clientSecret,
+		logger: silent ? SilentLogger : logger,
+		rest,
+		token,
+	}).plan(options);
 }
 
 // Config docs are in DeployConfig interace
@@ -285,90 +1305,71 @@ async function deploySingleDestination(
 /* eslint-enable jsdoc/check-param-names */
 export async function deploy({
 	applicationId,
-	bulkOverwrite = false,
-	commands,
-	devGuildId,
-	dryRun = false,
-	force = false,
+	bearerToken,
+	clientSecret,
+	logger,
+	permissionsToken,
+	rest,
+	silent = false,
 	token,
+	...options
 }: DeployConfig): Promise<DeployResponse | null> {
-	clientId = applicationId;
-	if (dryRun) {
-		console.log(
-			chalk.magentaBright('This is a dry run, all logs suggesting an API call are not actually making calls'),
-		);
-	} else {
-		rest.setToken(token);
-	}
-
-	const chatCommands = commands.get(ApplicationCommandType.ChatInput) ?? [];
-	const userCommands = commands.get(ApplicationCommandType.User) ?? [];
-	const messageCommands = commands.get(ApplicationCommandType.Message) ?? [];
-	const allCommands = [...chatCommands, ...userCommands, ...messageCommands];
-	if (allCommands.length === 0) {
-		return null;
-	}
+	return new Deployer({
+		applicationId,
+		bearerToken,
+		clientSecret,
+		logger: silent ? SilentLogger : logger,
+		permissionsToken,
+		rest,
+		token,
+	}).deploy(options);
+}
 
-	// Deploy in Dev mode
-	if (devGuildId) {
-		console.log(
-			chalk.blueBright(`Operating in dev mode, all ${allCommands.length} commands deploying to ${devGuildId}.`),
-		);
-		const deployed = await deploySingleDestination(
-			allCommands.map((definition) => definition.command),
-			force,
-			bulkOverwrite,
-			dryRun,
-			devGuildId,
-		).catch((error) => error as DiscordAPIError | HTTPError);
-		if (deployed instanceof Error) {
-			if ([401, 403, 404].includes(deployed.status)) return { guilds: new Map(), error: deployed, dev: devGuildId };
-			return {
-				guilds: new Map<string, SingleDeployResponse>([
-					[devGuildId, { bulkError: deployed, errored: [], skipped: [], commands: [] }],
-				]),
-				dev: devGuildId,
-			};
+// Config docs are in DeployConfig interace
+/* eslint-disable jsdoc/check-param-names */
+/**
+ * Determines the changes deploying a set of application commands to several applications would make, one after another.
+ * An error planning for one application is set as the error of its plan without stopping the others
+ *
+ * @param configs - The configuration options for each application, bulkOverwrite, dryRun and force are ignored
+ * @returns The planned changes, keyed by application id
+ */
+/* eslint-enable jsdoc/check-param-names */
+export async function planApplications(configs: DeployConfig[]): Promise<Map<Snowflake, DeployPlan | null>> {
+	const plans = new Map<Snowflake, DeployPlan | null>();
+	for (const config of configs) {
+		try {
+			plans.set(config.applicationId, await planDeploy(config));
+		} catch (error) {
+			plans.set(config.applicationId, { error: error as Error, guilds: new Map(), prune: config.prune ?? false });
 		}
-
-		return { guilds: new Map<string, SingleDeployResponse>([[devGuildId, deployed]]), dev: devGuildId };
 	}
 
-	// Separate commands into their destinations
-	const response: DeployResponse = {
-		guilds: new Map(),
-	};
-	const { globalCommands, guildCommands: guildCommandsMap } =
-		separateGlobalGuild<RESTPostAPIApplicationCommandsJSONBody>(allCommands);
-	// Deploy Global commands
-	if (globalCommands.length > 0) {
-		const deployed = await deploySingleDestination(globalCommands, force, bulkOverwrite, dryRun).catch(
-			(error) => error as DiscordAPIError | HTTPError,
-		);
-		if (deployed instanceof Error) {
-			// If the error is unauth or the unlikely 403 / 404, stop all future requests
-			if ([401, 403, 404].includes(deployed.status)) return { ...response, error: deployed };
-			response.global = { bulkError: deployed, errored: [], skipped: [], commands: [] };
-		} else {
-			response.global = deployed;
-		}
-	}
+	return plans;
+}
 
-	// Deploy Guild Commands
-	for (const [guildId, guildCommands] of guildCommandsMap) {
-		const deployed = await deploySingleDestination(guildCommands, force, bulkOverwrite, dryRun, guildId).catch(
-			(error) => error as DiscordAPIError | HTTPError,
-		);
-		if (deployed instanceof Error) {
-			// If the error is unauth, stop all future requests, 403 / 404 here can be different per guild
-			if (deployed.status === 401) return { ...response, error: deployed };
-			response.guilds.set(guildId, { bulkError: deployed, errored: [], skipped: [], commands: [] });
-		} else {
-			response.guilds.set(guildId, deployed);
+// Config docs are in DeployConfig interace
+/* eslint-disable jsdoc/check-param-names */
+/**
+ * Deploys a set of application commands to several applications, one after another.
+ * Each application uses its own credentials and destinations, an error deploying to one application is set as the error
+ * of its results without stopping the others
+ *
+ * @param configs - The configuration options for deploying to each application
+ * @returns The results of each deploy, keyed by application id
+ */
+/* eslint-enable jsdoc/check-param-names */
+export async function deployApplications(configs: DeployConfig[]): Promise<Map<Snowflake, DeployResponse | null>> {
+	const results = new Map<Snowflake, DeployResponse | null>();
+	for (const config of configs) {
+		try {
+			results.set(config.applicationId, await deploy(config));
+		} catch (error) {
+			results.set(config.applicationId, { error: error as Error, guilds: new Map() });
 		}
 	}
 
-	return response;
+	return results;
 }
 
 export default deploy;
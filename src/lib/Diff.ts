@@ -0,0 +1,361 @@
+import type { _AddUndefinedToPossiblyUndefinedPropertiesOfInterface as AddUndefinedToPossiblyUndefinedPropertiesOfInterface } from 'discord-api-types/utils/internals.js';
+import {
+	type APIApplicationCommand,
+	type APIApplicationCommandOption,
+	type APIApplicationCommandOptionChoice,
+	ApplicationCommandType,
+	type RESTPatchAPIApplicationCommandJSONBody,
+	type RESTPostAPIApplicationCommandsJSONBody,
+} from 'discord-api-types/v10';
+import { default as isEqual } from 'fast-deep-equal';
+import {
+	type APIApplicationCommandChoicesOption,
+	DefaultContexts,
+	DefaultIntegrationTypes,
+	getContexts,
+	getIntegrationTypes,
+	isChannelOption,
+	isChoicesOption,
+	isNumericalOption,
+	isSubcommandOption,
+} from './Util.js';
+
+/**
+ * The kind of change made to a single field
+ */
+export enum CommandChangeType {
+	/**
+	 * The field is not present on the existing command
+	 */
+	Added = 'added',
+	/**
+	 * The field is set on the existing command and the definition has a different value
+	 */
+	Changed = 'changed',
+	/**
+	 * The field is present on the existing command but not in the definition
+	 */
+	Removed = 'removed',
+}
+
+/**
+ * A single difference between an existing command and its definition
+ */
+export interface CommandChange {
+	/**
+	 * The value in the command definition
+	 */
+	newValue: unknown;
+	/**
+	 * The value on the existing command
+	 */
+	oldValue: unknown;
+	/**
+	 * The path to the changed field, e.g. `options[2].choices[1].value`
+	 */
+	path: string;
+	/**
+	 * The kind of change
+	 */
+	type: CommandChangeType;
+}
+
+type OptionDefinition = AddUndefinedToPossiblyUndefinedPropertiesOfInterface<APIApplicationCommandOption>;
+
+/**
+ * The values discord applies to the top level fields of a command that can be omitted, sent when resetting them
+ */
+const PatchDefaults: Record<string, unknown> = {
+	contexts: DefaultContexts,
+	default_member_permissions: null,
+	description_localizations: null,
+	dm_permission: true,
+	integration_types: DefaultIntegrationTypes,
+	name_localizations: null,
+	options: [],
+};
+
+/**
+ * Records a change to the list of changes if the values differ
+ *
+ * @param changes - The list of changes to add to
+ * @param path - The path to the field being compared
+ * @param oldValue - The value on the existing command
+ * @param newValue - The value in the command definition
+ */
+function compareValue(changes: CommandChange[], path: string, oldValue: unknown, newValue: unknown) {
+	if (isEqual(oldValue, newValue)) return;
+	let type = CommandChangeType.Changed;
+	if (oldValue === undefined) type = CommandChangeType.Added;
+	if (newValue === undefined) type = CommandChangeType.Removed;
+	changes.push({ path, type, oldValue, newValue });
+}
+
+/**
+ * Records the changes between two localization maps, per locale
+ *
+ * @param changes - The list of changes to add to
+ * @param path - The path to the localization map
+ * @param oldValue - The map on the existing command
+ * @param newValue - The map in the command definition
+ */
+function compareLocalizations(
+	changes: CommandChange[],
+	path: string,
+	oldValue: Record<string, string | null | undefined> | null | undefined,
+	newValue: Record<string, string | null | undefined> | null | undefined,
+) {
+	const oldMap = oldValue ?? {};
+	const newMap = newValue ?? {};
+	for (const locale of new Set([...Object.keys(oldMap), ...Object.keys(newMap)])) {
+		compareValue(changes, `${path}.${locale}`, oldMap[locale] ?? undefined, newMap[locale] ?? undefined);
+	}
+}
+
+/**
+ * Records a change to the order of a list when the entries present in both lists are in a different order.
+ * Added and removed entries are recorded separately, so they do not count as a change in order
+ *
+ * @param changes - The list of changes to add to
+ * @param path - The path to the list
+ * @param oldNames - The names of the entries on the existing command, in order
+ * @param newNames - The names of the entries in the command definition, in order
+ */
+function compareOrder(changes: CommandChange[], path: string, oldNames: string[], newNames: string[]) {
+	const oldOrder = oldNames.filter((name) => newNames.includes(name));
+	const newOrder = newNames.filter((name) => oldNames.includes(name));
+	if (!isEqual(oldOrder, newOrder)) {
+		changes.push({ path, type: CommandChangeType.Changed, oldValue: oldNames, newValue: newNames });
+	}
+}
+
+/**
+ * Records the changes between two lists of choices, matched by name
+ *
+ * @param changes - The list of changes to add to
+ * @param path - The path to the choices
+ * @param existing - The choices on the existing option
+ * @param choices - The choices in the option definition
+ */
+function compareChoices(
+	changes: CommandChange[],
+	path: string,
+	existing: APIApplicationCommandOptionChoice[],
+	choices: APIApplicationCommandOptionChoice[],
+) {
+	for (const [index, choice] of choices.entries()) {
+		const found = existing.find((existingChoice) => existingChoice.name === choice.name);
+		if (found) {
+			compareValue(changes, `${path}[${index}].value`, found.value, choice.value);
+		} else {
+			compareValue(changes, `${path}[${index}]`, undefined, choice);
+		}
+	}
+
+	for (const [index, choice] of existing.entries()) {
+		if (choices.some((definedChoice) => definedChoice.name === choice.name)) continue;
+		compareValue(changes, `${path}[${index}]`, choice, undefined);
+	}
+
+	compareOrder(
+		changes,
+		path,
+		existing.map((choice) => choice.name),
+		choices.map((choice) => choice.name),
+	);
+}
+
+/**
+ * Gets the changes between a single existing option and its definition
+ *
+ * @param existing - The option received from discord
+ * @param option - The option definition
+ * @param path - The path to the option, e.g. `options[2]`
+ * @returns The changes, empty if the option is up to date
+ */
+export function diffOption(existing: APIApplicationCommandOption, option: OptionDefinition, path: string) {
+	const changes: CommandChange[] = [];
+	compareValue(changes, `${path}.name`, existing.name, option.name);
+	compareValue(changes, `${path}.type`, existing.type, option.type);
+	compareValue(changes, `${path}.description`, existing.description, option.description);
+	compareValue(changes, `${path}.required`, existing.required ?? false, option.required ?? false);
+	compareLocalizations(changes, `${path}.name_localizations`, existing.name_localizations, option.name_localizations);
+	compareLocalizations(
+		changes,
+		`${path}.description_localizations`,
+		existing.description_localizations,
+		option.description_localizations,
+	);
+
+	if (isChoicesOption(existing) && isChoicesOption(option)) {
+		compareValue(changes, `${path}.autocomplete`, existing.autocomplete ?? false, option.autocomplete ?? false);
+		const existingChoices = (existing as APIApplicationCommandChoicesOption & { autocomplete?: false }).choices;
+		const optionChoices = (option as APIApplicationCommandChoicesOption & { autocomplete?: false }).choices;
+		compareChoices(
+			changes,
+			`${path}.choices`,
+			(existingChoices ?? []) as APIApplicationCommandOptionChoice[],
+			(optionChoices ?? []) as APIApplicationCommandOptionChoice[],
+		);
+	}
+
+	if (isSubcommandOption(existing) && isSubcommandOption(option)) {
+		// eslint-disable-next-line @typescript-eslint/no-use-before-define
+		changes.push(...diffOptions(existing.options ?? [], option.options ?? [], `${path}.options`));
+	}
+
+	if (isChannelOption(existing) && isChannelOption(option)) {
+		const existingTypes = [...(existing.channel_types ?? [])].sort((first, second) => first - second);
+		const optionTypes = [...(option.channel_types ?? [])].sort((first, second) => first - second);
+		if (!isEqual(existingTypes, optionTypes)) {
+			compareValue(changes, `${path}.channel_types`, existing.channel_types, option.channel_types);
+		}
+	}
+
+	if (isNumericalOption(existing) && isNumericalOption(option)) {
+		compareValue(changes, `${path}.min_value`, existing.min_value, option.min_value);
+		compareValue(changes, `${path}.max_value`, existing.max_value, option.max_value);
+	}
+
+	return changes;
+}
+
+/**
+ * Gets the changes between a list of existing options and their definitions, matching options by name.
+ * Options are displayed in order, so a different order is recorded as a change to the list
+ *
+ * @param existing - The options received from discord
+ * @param options - The option definitions
+ * @param path - The path to the options
+ * @returns The changes, empty if the options are up to date
+ */
+export function diffOptions(
+	existing: APIApplicationCommandOption[],
+	options: OptionDefinition[],
+	path = 'options',
+): CommandChange[] {
+	const changes: CommandChange[] = [];
+	for (const [index, option] of options.entries()) {
+		const found = existing.find((existingOption) => existingOption.name === option.name);
+		if (found) {
+			changes.push(...diffOption(found, option, `${path}[${index}]`));
+		} else {
+			compareValue(changes, `${path}[${index}]`, undefined, option);
+		}
+	}
+
+	for (const [index, option] of existing.entries()) {
+		if (options.some((definedOption) => definedOption.name === option.name)) continue;
+		compareValue(changes, `${path}[${index}]`, option, undefined);
+	}
+
+	compareOrder(
+		changes,
+		path,
+		existing.map((option) => option.name),
+		options.map((option) => option.name),
+	);
+	return changes;
+}
+
+/**
+ * Gets the changes between an existing command and its definition, applying discords defaults for omitted fields
+ *
+ * @param existing - The command received from discord
+ * @param command - The command definition
+ * @returns The changes, empty if the command is up to date
+ */
+export function diffCommand(
+	existing: APIApplicationCommand,
+	command: RESTPostAPIApplicationCommandsJSONBody,
+): CommandChange[] {
+	const changes: CommandChange[] = [];
+	compareValue(changes, 'name', existing.name, command.name);
+	// Discord API defaults type to chat input
+	compareValue(changes, 'type', existing.type, command.type ?? ApplicationCommandType.ChatInput);
+	if ('description' in command) compareValue(changes, 'description', existing.description, command.description);
+	// The handler of entry point commands has no documented default, so it is only compared when set
+	if (command.handler !== undefined) compareValue(changes, 'handler', existing.handler, command.handler);
+	compareValue(
+		changes,
+		'default_member_permissions',
+		existing.default_member_permissions ?? null,
+		command.default_member_permissions ?? null,
+	);
+	// Guild commands do not have a dm_permission, integration types or contexts
+	if (existing.guild_id === undefined) {
+		compareValue(changes, 'dm_permission', existing.dm_permission ?? true, command.dm_permission ?? true);
+		compareValue(changes, 'integration_types', getIntegrationTypes(existing), getIntegrationTypes(command));
+		compareValue(changes, 'contexts', getContexts(existing), getContexts(command));
+	}
+
+	compareLocalizations(changes, 'name_localizations', existing.name_localizations, command.name_localizations);
+	compareLocalizations(
+		changes,
+		'description_localizations',
+		existing.description_localizations,
+		command.description_localizations,
+	);
+	// An empty list of options is sent as is, so it differs from omitting the options
+	if (!existing.options?.length && !command.options?.length) {
+		compareValue(changes, 'options', existing.options, command.options);
+	}
+
+	changes.push(...diffOptions(existing.options ?? [], command.options ?? []));
+	return changes;
+}
+
+/**
+ * Checks whether an existing option matches its definition
+ *
+ * @param existing - The option received from discord
+ * @param option - The option definition
+ */
+export function optionEquals(existing: APIApplicationCommandOption, option: OptionDefinition) {
+	return diffOption(existing, option, '').length === 0;
+}
+
+/**
+ * Checks whether a list of existing options matches their definitions, including their order
+ *
+ * @param existing - The options received from discord
+ * @param options - The option definitions
+ */
+export function optionsEqual(existing: APIApplicationCommandOption[], options: OptionDefinition[]) {
+	return diffOptions(existing, options).length === 0;
+}
+
+/**
+ * Checks whether an existing command matches its definition, the same as the definition having no changes
+ *
+ * @param existing - The command received from discord
+ * @param command - The command definition
+ */
+export function commandEquals(existing: APIApplicationCommand, command: RESTPostAPIApplicationCommandsJSONBody) {
+	return diffCommand(existing, command).length === 0;
+}
+
+/**
+ * Gets the fields of a command definition that differ from the existing command, ready to be sent in an edit request.
+ * Fields omitted from the definition but set on the existing command are reset to their defaults
+ *
+ * @param existing - The command received from discord
+ * @param command - The command definition
+ * @param changes - The changes between the existing command and its definition, computed when not provided
+ * @returns The body for an edit request containing only the changed fields
+ */
+export function getCommandPatch(
+	existing: APIApplicationCommand,
+	command: RESTPostAPIApplicationCommandsJSONBody,
+	changes = diffCommand(existing, command),
+): RESTPatchAPIApplicationCommandJSONBody {
+	const definition = command as unknown as Record<string, unknown>;
+	const patch: Record<string, unknown> = {};
+	for (const { path } of changes) {
+		// Nested changes are sent as the whole top level field, e.g. all options for `options[2].name`
+		const [field] = path.split(/[.[]/);
+		patch[field!] = definition[field!] ?? PatchDefaults[field!];
+	}
+
+	return patch as RESTPatchAPIApplicationCommandJSONBody;
+}
@@ -0,0 +1,114 @@
+import type { DeployPlan, DeployResponse } from './Deploy.js';
+
+/**
+ * The process exit codes used by the `deploy-interactions` command
+ */
+export enum ExitCode {
+	/**
+	 * Every command was deployed (or planned) successfully
+	 */
+	Success,
+	/**
+	 * The configuration or the command files could not be read or were incomplete
+	 */
+	ConfigError,
+	/**
+	 * Some commands or destinations failed to deploy
+	 */
+	PartialFailure,
+	/**
+	 * The entire deploy was halted, usually due to an invalid token (401) or missing access (403)
+	 */
+	FatalError,
+	/**
+	 * The planned deploy would make changes and failing on changes was requested
+	 */
+	PendingChanges,
+}
+
+/**
+ * An error thrown when the configuration is incomplete or invalid, which exits with {@link ExitCode.ConfigError}
+ * instead of {@link ExitCode.FatalError}
+ */
+export class ConfigurationError extends Error {
+	public constructor(message: string) {
+		super(message);
+		this.name = 'ConfigurationError';
+	}
+}
+
+/**
+ * Determines the exit code for an error that halted the process
+ *
+ * @param error - The error that was thrown
+ */
+export function getErrorExitCode(error: unknown): ExitCode {
+	return error instanceof ConfigurationError ? ExitCode.ConfigError : ExitCode.FatalError;
+}
+
+/**
+ * Determines the exit code for the results of a deploy
+ *
+ * @param results - The results of the deploy
+ */
+export function getDeployExitCode(results: DeployResponse): ExitCode {
+	if (results.error) return getErrorExitCode(results.error);
+	const destinations = [...results.guilds.values()];
+	if (results.global) destinations.push(results.global);
+	if (
+		destinations.some(
+			(data) =>
+				data.bulkError !== undefined ||
+				data.errored.length > 0 ||
+				data.failedDeletes.length > 0 ||
+				data.permissions.some((result) => result.status === 'errored'),
+		)
+	)
+		return ExitCode.PartialFailure;
+	return ExitCode.Success;
+}
+
+/**
+ * Determines the exit code for the planned changes of a deploy
+ *
+ * @param plan - The planned changes
+ * @param failOnChanges - Whether any pending change should result in {@link ExitCode.PendingChanges}
+ */
+export function getPlanExitCode(plan: DeployPlan, failOnChanges: boolean): ExitCode {
+	if (plan.error) return getErrorExitCode(plan.error);
+	const destinations = [...plan.guilds.values()];
+	if (plan.global) destinations.push(plan.global);
+	if (destinations.some((data) => data.error)) return ExitCode.PartialFailure;
+	if (
+		failOnChanges &&
+		destinations.some((data) => data.created.length || data.updated.length || (plan.prune && data.remoteOnly.length))
+	) {
+		return ExitCode.PendingChanges;
+	}
+
+	return ExitCode.Success;
+}
+
+/**
+ * The exit codes from the least to the most severe, used to combine the exit codes of several deploys
+ */
+const ExitCodeSeverity = [
+	ExitCode.Success,
+	ExitCode.PendingChanges,
+	ExitCode.ConfigError,
+	ExitCode.PartialFailure,
+	ExitCode.FatalError,
+];
+
+/**
+ * Determines the exit code for several deploys (or plans), the most severe of their exit codes
+ *
+ * @param exitCodes - The exit codes of each deploy
+ */
+export function getCombinedExitCode(exitCodes: ExitCode[]): ExitCode {
+	return exitCodes.reduce(
+		(combined, exitCode) =>
+			ExitCodeSeverity.indexOf(exitCode) > ExitCodeSeverity.indexOf(combined) ? exitCode : combined,
+		ExitCode.Success,
+	);
+}
@@ -1,30 +1,115 @@
-import { type PathLike, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { existsSync, type PathLike, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { extname, resolve } from 'node:path';
 import process from 'node:process';
+import { pathToFileURL } from 'node:url';
 import chalk from 'chalk';
 import { ApplicationCommandType, type RESTPostAPIApplicationCommandsJSONBody } from 'discord-api-types/v10';
+import { default as isEqual } from 'fast-deep-equal';
+import { parse as parseYAML } from 'yaml';
 import type { InteractionsDeployConfig, PathLikeWithDestinationConfig } from '../bin/deploy-interactions';
 import type { ApplicationCommandConfig } from './Deploy';
+import { expandGlob, globToRegExp, isGlob, normalizePath, walkFolder } from './Glob.js';
+import { registerTypeScript, TypeScriptExtensions } from './TypeScriptLoader.js';
 
-export function getStoredConfig(debug: boolean, overrideConfig?: string): InteractionsDeployConfig | null {
-	const cwd = process.cwd();
+/**
+ * The config files that are looked for in the current directory when no config path is provided, in order
+ */
+export const ConfigFileNames = [
+	'.interactionsrc.js',
+	'.interactionsrc.cjs',
+	'.interactionsrc.mjs',
+	'.interactionsrc.ts',
+	'interactions.config.js',
+	'interactions.config.cjs',
+	'interactions.config.mjs',
+	'interactions.config.ts',
+	'.interactionsrc.json',
+	'interactions.config.json',
+	'.interactionsrc.yaml',
+	'.interactionsrc.yml',
+	'interactions.config.yaml',
+	'interactions.config.yml',
+];
+
+/**
+ * The extensions of files that a config can be loaded from
+ */
+const ConfigFileExtensions = ['.js', '.cjs', '.mjs', ...TypeScriptExtensions, '.json', '.yaml', '.yml'];
+
+/**
+ * Loads a config from file, JSON and YAML configs are interpolated with environment variables.
+ * Modules may export the config (as default for ES modules) or a function, possibly async, that returns the config
+ *
+ * @param path - The path to the config file
+ * @param interpolate - Whether to interpolate JSON and YAML configs, otherwise they are returned as written
+ * @returns The loaded config
+ */
+export async function loadConfigFile(path: string, interpolate = true): Promise<InteractionsDeployConfig> {
+	const extension = extname(path);
+	if (!ConfigFileExtensions.includes(extension)) {
+		throw new Error('Config path provided is not a supported file type');
+	}
+
+	if (isInterpolatedConfig(path)) {
+		const content = readFileSync(path, 'utf8');
+		const config = (extension === '.json' ? JSON.parse(content) : parseYAML(content) ?? {}) as InteractionsDeployConfig;
+		return interpolate ? interpolateConfig(config) : config;
+	}
+
+	let config = await loadModule(path);
+	// ES modules and transpiled default exports expose the config as default
+	if (config && typeof config === 'object' && 'default' in config) {
+		config = (config as Record<string, unknown>).default;
+	}
+
+	if (typeof config === 'function') {
+		config = await (config as () => Promise<unknown> | unknown)();
+	}
+
+	if (!config || typeof config !== 'object') throw new Error('The config file does not export a config object');
+	return config as InteractionsDeployConfig;
+}
+
+/**
+ * A config loaded from file, along with the settings it resolves to
+ */
+export interface StoredConfig {
+	/**
+	 * The settings in use, with the selected profile merged over the base settings
+	 */
+	config: InteractionsDeployConfig;
+	/**
+	 * The config as defined in the file, including its profiles and references to environment variables
+	 */
+	raw: InteractionsDeployConfig;
+}
+
+/**
+ * Whether the config file at a path is interpolated with environment variables when loaded
+ *
+ * @param path - The path to the config file
+ */
+function isInterpolatedConfig(path: string) {
+	return ['.json', '.yaml', '.yml'].includes(extname(path));
+}
+
+export async function getStoredConfig(
+	debug: boolean,
+	overrideConfig?: string,
+	profile?: string,
+): Promise<StoredConfig | null> {
 	const cwdFiles = readdirSync('./');
+	// The config is loaded as written so it can be stored without the values of environment variables
 	let config: InteractionsDeployConfig | null = null;
+	let configPath: string | null = null;
 	if (overrideConfig) {
 		try {
-			if (overrideConfig.endsWith('.js') || overrideConfig.endsWith('.cjs')) {
-				// eslint-disable-next-line @typescript-eslint/no-require-imports, @typescript-eslint/no-var-requires
-				config = require(`${cwd}/${overrideConfig}`) as InteractionsDeployConfig;
-			}
-
-			if (overrideConfig.endsWith('.json')) {
-				config = JSON.parse(readFileSync(overrideConfig, 'utf8')) as InteractionsDeployConfig;
-			}
-
-			if (!config) throw new Error('Config path provided is not a supported file type');
+			config = await loadConfigFile(overrideConfig, false);
+			configPath = overrideConfig;
 		} catch (error) {
 			if (!debug) {
 				console.error(
-					'The config option was present but the file could not be located (use --debug to see the full error)',
+					'The config option was present but the file could not be loaded (use --debug to see the full error)',
 				);
 			}
 
@@ -36,34 +121,15 @@ export function getStoredConfig(debug: boolean, overrideConfig?: string): Intera
 		}
 	}
 
-	if (!config && cwdFiles.includes('.interactionsrc.js')) {
-		try {
-			// eslint-disable-next-line @typescript-eslint/no-require-imports, @typescript-eslint/no-var-requires
-			config = require(`${cwd}/.interactionsrc.js`) as InteractionsDeployConfig;
-		} catch (error) {
-			if (debug) {
-				console.error(chalk`{green Debug} Found js but could not import`, error);
-			}
-		}
-	}
-
-	if (!config && cwdFiles.includes('.interactionsrc.cjs')) {
+	for (const fileName of ConfigFileNames) {
+		if (config) break;
+		if (!cwdFiles.includes(fileName)) continue;
 		try {
-			// eslint-disable-next-line @typescript-eslint/no-require-imports, @typescript-eslint/no-var-requires
-			config = require(`${cwd}/.interactionsrc.cjs`) as InteractionsDeployConfig;
+			config = await loadConfigFile(fileName, false);
+			configPath = fileName;
 		} catch (error) {
 			if (debug) {
-				console.error(chalk`{green Debug} Found cjs but could not import`, error);
-			}
-		}
-	}
-
-	if (!config && cwdFiles.includes('.interactionsrc.json')) {
-		try {
-			config = JSON.parse(readFileSync('.interactionsrc.json', 'utf8')) as InteractionsDeployConfig;
-		} catch (error) {
-			if (debug) {
-				console.error(chalk`{green Debug} Found json config but could not read`, error);
+				console.error(chalk`{green Debug} Found ${fileName} but could not load it`, error);
 			}
 		}
 	}
@@ -73,6 +139,7 @@ export function getStoredConfig(debug: boolean, overrideConfig?: string): Intera
 			const pack = JSON.parse(readFileSync('package.json', 'utf8')) as Record<string, unknown>;
 			if (pack.interactionsConfig) {
 				config = pack.interactionsConfig as InteractionsDeployConfig;
+				configPath = 'package.json';
 			}
 		} catch (error) {
 			if (debug) {
@@ -81,13 +148,257 @@ export function getStoredConfig(debug: boolean, overrideConfig?: string): Intera
 		}
 	}
 
-	return config;
+	if (!config && profile === undefined) return null;
+	const raw = config ?? {};
+	const settings = configPath && isInterpolatedConfig(configPath) ? interpolateConfig(raw) : raw;
+	try {
+		return { config: resolveEnvKeys(applyProfile(settings, profile)), raw };
+	} catch (error) {
+		console.error(chalk`{redBright Error} ${(error as Error).message}`);
+		throw error;
+	}
+}
+
+/**
+ * Merges the settings of a profile over the base settings of a config
+ *
+ * @param config - The config containing the profile
+ * @param profile - The name of the profile to apply, only the base settings are used when not provided
+ * @returns The merged settings, without any profiles
+ */
+export function applyProfile(config: InteractionsDeployConfig, profile?: string): InteractionsDeployConfig {
+	const { profiles, ...base } = config;
+	if (profile === undefined) return base;
+	const overrides = profiles?.[profile];
+	if (!overrides) throw new Error(`The profile "${profile}" is not defined in the config`);
+	return { ...base, ...overrides };
+}
+
+/**
+ * Matches `${VAR}` and `${VAR:-default}` references to environment variables
+ */
+const EnvReferencePattern = /\${(?<name>\w+)(?<fallback>:-[^}]*|)}/g;
+
+function interpolateString(value: string, env: NodeJS.ProcessEnv) {
+	return value.replaceAll(EnvReferencePattern, (...args: unknown[]) => {
+		// The fallback group includes the leading `:-`, or is empty without a default
+		const { fallback, name } = args.at(-1) as { fallback: string; name: string };
+		const variable = env[name];
+		// Like a shell, the default is also used when the variable is set but empty
+		if (variable === undefined || variable === '') return fallback.slice(2);
+		return variable;
+	});
+}
+
+function interpolateValue(value: unknown, env: NodeJS.ProcessEnv): unknown {
+	if (typeof value === 'string') {
+		const interpolated = interpolateString(value, env);
+		// Values that only referenced unset variables are treated as not set at all
+		return interpolated === '' && value !== '' ? undefined : interpolated;
+	}
+
+	if (Array.isArray(value)) {
+		return value.map((item) => interpolateValue(item, env)).filter((item) => item !== undefined);
+	}
+
+	if (value !== null && typeof value === 'object') {
+		const interpolated: Record<string, unknown> = {};
+		for (const [key, item] of Object.entries(value)) {
+			const interpolatedKey = interpolateString(key, env);
+			const interpolatedItem = interpolateValue(item, env);
+			if (interpolatedKey === '' || interpolatedItem === undefined) continue;
+			interpolated[interpolatedKey] = interpolatedItem;
+		}
+
+		return interpolated;
+	}
+
+	return value;
+}
+
+/**
+ * Replaces `${VAR}` and `${VAR:-default}` in the string values and keys of a JSON config with environment variables.
+ * Values that are empty once replaced are removed, command definitions are left untouched
+ *
+ * @param config - The config as parsed from JSON
+ * @param env - The environment variables to use
+ * @returns The interpolated config
+ */
+export function interpolateConfig(
+	config: InteractionsDeployConfig,
+	env: NodeJS.ProcessEnv = process.env,
+): InteractionsDeployConfig {
+	const { commandDefinitions, ...settings } = config;
+	const interpolated = interpolateValue(settings, env) as InteractionsDeployConfig;
+	if (commandDefinitions) interpolated.commandDefinitions = commandDefinitions;
+	return interpolated;
+}
+
+function getEnvValues(config: Pick<InteractionsDeployConfig, 'clientIdEnv' | 'tokenEnv'>, env: NodeJS.ProcessEnv) {
+	const values: Pick<InteractionsDeployConfig, 'clientId' | 'token'> = {};
+	if (config.clientIdEnv && env[config.clientIdEnv]) values.clientId = env[config.clientIdEnv]!;
+	if (config.tokenEnv && env[config.tokenEnv]) values.token = env[config.tokenEnv]!;
+	return values;
+}
+
+/**
+ * Reads the client id and token from the environment variables named by `clientIdEnv` and `tokenEnv`,
+ * for the config and each of its applications. Unset variables leave the existing values in place
+ *
+ * @param config - The config to resolve
+ * @param env - The environment variables to use
+ * @returns The config with the values of the variables applied
+ */
+export function resolveEnvKeys(
+	config: InteractionsDeployConfig,
+	env: NodeJS.ProcessEnv = process.env,
+): InteractionsDeployConfig {
+	const resolved = { ...config, ...getEnvValues(config, env) };
+	if (resolved.applications) {
+		resolved.applications = resolved.applications.map((application) => ({
+			...application,
+			...getEnvValues(application, env),
+		}));
+	}
+
+	return resolved;
 }
 
 function isJSONEncodable(data: unknown): data is Record<string, unknown> & { toJSON(): unknown } {
 	return data !== null && typeof data === 'object' && typeof (data as Record<string, unknown>).toJSON === 'function';
 }
 
+/**
+ * Imports an ES module with the native `import()`. This package is compiled to CommonJS, where TypeScript rewrites
+ * `import()` to `require()`, which cannot load ES modules. Creating the call through the Function constructor keeps it
+ * out of the compiler's reach, so it is never rewritten.
+ * Runtimes that evaluate this file in a vm context without a dynamic import callback (such as vitest) cannot use it
+ *
+ * @param specifier - The file URL of the module
+ * @returns The namespace of the module
+ */
+// eslint-disable-next-line @typescript-eslint/no-implied-eval, no-new-func -- the specifier is always a file URL
+const importModule = new Function('specifier', 'return import(specifier)') as (specifier: string) => Promise<unknown>;
+
+/**
+ * Loads a JavaScript or TypeScript module, `.js` files that are ES modules are imported when they cannot be required
+ *
+ * @param path - The path to the module, relative to the current directory
+ * @returns The exports of the module
+ */
+async function loadModule(path: string): Promise<unknown> {
+	const absolutePath = resolve(process.cwd(), path);
+	if (path.endsWith('.mjs')) {
+		return importModule(pathToFileURL(absolutePath).href);
+	}
+
+	if (TypeScriptExtensions.includes(extname(path))) {
+		registerTypeScript();
+		// eslint-disable-next-line @typescript-eslint/no-require-imports, @typescript-eslint/no-var-requires
+		return require(absolutePath);
+	}
+
+	try {
+		// eslint-disable-next-line @typescript-eslint/no-require-imports, @typescript-eslint/no-var-requires
+		return require(absolutePath);
+	} catch (error) {
+		if (!path.endsWith('.js')) throw error;
+		return importModule(pathToFileURL(absolutePath).href);
+	}
+}
+
+/**
+ * The extensions of files that command definitions can be loaded from
+ */
+export const CommandFileExtensions = ['.json', '.js', '.cjs', '.mjs', ...TypeScriptExtensions];
+
+/**
+ * Checks whether a path points to a file that command definitions can be loaded from
+ *
+ * @param path - The path to check
+ */
+export function isCommandFile(path: string): boolean {
+	// Declaration files never contain definitions
+	if (/\.d\.[cm]?ts$/.test(path)) return false;
+	return CommandFileExtensions.includes(extname(path));
+}
+
+/**
+ * The reasons a command file can fail to load
+ */
+export enum CommandLoadFailureReason {
+	/**
+	 * The file exports a value that is not a command definition
+	 */
+	InvalidShape = 'invalid-shape',
+	/**
+	 * The file could not be read, or threw while being imported
+	 */
+	LoadError = 'load-error',
+	/**
+	 * The file does not have the expected (default or named) export
+	 */
+	MissingExport = 'missing-export',
+	/**
+	 * The configured path does not exist
+	 */
+	NotFound = 'not-found',
+	/**
+	 * The file contains invalid JSON or JavaScript syntax
+	 */
+	SyntaxError = 'syntax-error',
+}
+
+/**
+ * An error thrown when a file was read but does not contain a usable command definition
+ */
+export class CommandLoadError extends Error {
+	public readonly reason: CommandLoadFailureReason;
+
+	public constructor(reason: CommandLoadFailureReason, message: string) {
+		super(message);
+		this.name = 'CommandLoadError';
+		this.reason = reason;
+	}
+}
+
+/**
+ * A command file (or configured path) that was skipped as it could not be loaded
+ */
+export interface CommandLoadFailure {
+	/**
+	 * The error encountered while loading
+	 */
+	error: unknown;
+	/**
+	 * The path to the file or the configured path
+	 */
+	path: string;
+	/**
+	 * Why the file could not be loaded
+	 */
+	reason: CommandLoadFailureReason;
+}
+
+function getLoadFailureReason(error: unknown): CommandLoadFailureReason {
+	if (error instanceof CommandLoadError) return error.reason;
+	if (error instanceof SyntaxError) return CommandLoadFailureReason.SyntaxError;
+	if ((error as NodeJS.ErrnoException | null)?.code === 'ENOENT') return CommandLoadFailureReason.NotFound;
+	return CommandLoadFailureReason.LoadError;
+}
+
+/**
+ * Checks whether the exports of a module lack a default export: ES modules (or their transpiled output) without one,
+ * and CommonJS modules that export an empty object
+ *
+ * @param exports - The exports of the module
+ */
+function isMissingDefaultExport(exports: object): boolean {
+	if ('default' in exports || 'name' in exports) return false;
+	const esModule = '__esModule' in exports || (exports as Record<symbol, unknown>)[Symbol.toStringTag] === 'Module';
+	return esModule || Object.keys(exports).length === 0;
+}
+
 /**
  * Gets a command from file.
  *
@@ -97,16 +408,30 @@ function isJSONEncodable(data: unknown): data is Record<string, unknown> & { toJ
  */
 async function getCommand(path: PathLike, named?: string): Promise<RESTPostAPIApplicationCommandsJSONBody> {
 	let data: unknown;
+	let isModule = false;
 	if (typeof path !== 'string' || path.endsWith('.json')) {
 		data = JSON.parse(readFileSync(path, 'utf8'));
-	} else if (path.endsWith('.js') || path.endsWith('.cjs')) {
-		try {
-			// eslint-disable-next-line @typescript-eslint/no-require-imports, @typescript-eslint/no-var-requires
-			data = require(`${process.cwd()}/${path}`);
-		} catch {
-			if (path.endsWith('.js')) {
-				data = await import(`file://${process.cwd()}/${path}`);
-			}
+	} else if (['.js', '.cjs', '.mjs', ...TypeScriptExtensions].includes(extname(path))) {
+		data = await loadModule(path);
+		isModule = true;
+	} else {
+		throw new CommandLoadError(CommandLoadFailureReason.LoadError, 'Unexpected file ending');
+	}
+
+	if (data && typeof data === 'object') {
+		// ESM modules and transpiled default exports expose the definition as default
+		if (!named && 'default' in data && !('name' in data)) {
+			data = (data as Record<string, unknown>).default;
+		} else if (!named && isModule && isMissingDefaultExport(data)) {
+			data = undefined;
+		}
+
+		data = named ? (data as Record<string, unknown>)[named] : data;
+		if (data === undefined) {
+			throw new CommandLoadError(
+				CommandLoadFailureReason.MissingExport,
+				named ? `The file has no export named ${named}` : 'The file has no default export',
+			);
 		}
 
 		if (isJSONEncodable(data)) {
@@ -114,56 +439,82 @@ async function getCommand(path: PathLike, named?: string): Promise<RESTPostAPIAp
 		}
 	}
 
-	if (data && typeof data === 'object') {
-		data = named ? (data as Record<string, unknown>)[named] : data;
-		if (typeof data !== 'object' || data === null)
-			throw new TypeError(`Read command file ${path.toString()} but its export is not a command`);
-		const likelyCommand = 'name' in data && ('description' in data || 'type' in data);
-		if (!likelyCommand) {
-			throw new TypeError(`Read command file ${path.toString()} but its export is not a command`);
-		}
-
-		if (!('type' in data)) (data as Record<string, unknown>).type = ApplicationCommandType.ChatInput;
-		return data as RESTPostAPIApplicationCommandsJSONBody;
+	if (typeof data !== 'object' || data === null)
+		throw new CommandLoadError(CommandLoadFailureReason.InvalidShape, 'The export is not an object');
+	const likelyCommand = 'name' in data && ('description' in data || 'type' in data);
+	if (!likelyCommand) {
+		throw new CommandLoadError(
+			CommandLoadFailureReason.InvalidShape,
+			'The export is missing a name and a description or type',
+		);
 	}
 
-	throw new TypeError('Unexpected file ending');
+	if (!('type' in data)) (data as Record<string, unknown>).type = ApplicationCommandType.ChatInput;
+	return data as RESTPostAPIApplicationCommandsJSONBody;
 }
 
 /**
- * Gets all commands from a folder
+ * Gets all commands from a list of files
  *
- * @param path - The relative path to the folder
+ * @param files - The relative paths to the files
  * @param debug - Whether to log debug outputs
  * @param named - If the export is named, the named of the export
- * @returns The processed commands
+ * @returns The processed commands and the files that failed to load
  */
-async function getFolderCommands(
-	path: string,
+async function getFilesCommands(
+	files: PathLike[],
 	debug: boolean,
 	named?: string,
-): Promise<RESTPostAPIApplicationCommandsJSONBody[]> {
+): Promise<{ commands: RESTPostAPIApplicationCommandsJSONBody[]; failures: CommandLoadFailure[] }> {
 	const commands: RESTPostAPIApplicationCommandsJSONBody[] = [];
-	const dir = readdirSync(path).filter(
-		(filename) => filename.endsWith('.js') || filename.endsWith('.cjs') || filename.endsWith('.json'),
-	);
-	for (const file of dir) {
+	const failures: CommandLoadFailure[] = [];
+	for (const file of files) {
 		try {
-			const command = await getCommand(`${path}/${file}`, named);
+			const command = await getCommand(file, named);
 			commands.push(command);
 		} catch (error) {
 			if (debug) {
 				console.log(chalk`{green Debug}`, error);
 			}
+
+			failures.push({ error, path: file.toString(), reason: getLoadFailureReason(error) });
 		}
 	}
 
-	return commands;
+	return { commands, failures };
+}
+
+/**
+ * Resolves a configured commands path to the command files it refers to
+ *
+ * @param path - A single file, a folder (searched recursively), or a glob pattern
+ * @param exclude - The patterns of files to leave out
+ * @returns The paths to the command files
+ */
+function resolveCommandFiles(path: PathLike, exclude: RegExp[]): PathLike[] {
+	if (typeof path !== 'string') return [path];
+	let files: string[];
+	if (isGlob(path)) {
+		files = expandGlob(path);
+	} else if (CommandFileExtensions.includes(extname(path))) {
+		// The path is a single file
+		if (!existsSync(path)) throw new CommandLoadError(CommandLoadFailureReason.NotFound, `${path} does not exist`);
+		return exclude.some((pattern) => pattern.test(normalizePath(path))) ? [] : [path];
+	} else {
+		// The path is a folder path
+		files = walkFolder(path);
+	}
+
+	return files.filter((file) => isCommandFile(file) && !exclude.some((pattern) => pattern.test(normalizePath(file))));
 }
 
 export interface CommandsResult {
 	commands: InteractionsDeployConfig['commandDefinitions'];
 	error: boolean;
+	/**
+	 * The files and paths that were skipped as they could not be loaded
+	 */
+	failures: CommandLoadFailure[];
 	finalCommands: ApplicationCommandConfig<RESTPostAPIApplicationCommandsJSONBody>[] | undefined;
 }
 
@@ -175,29 +526,44 @@ export async function getCommands(
 ): Promise<CommandsResult> {
 	const commands: RESTPostAPIApplicationCommandsJSONBody[] = [];
 	const finalCommands: ApplicationCommandConfig<RESTPostAPIApplicationCommandsJSONBody>[] = [];
+	const failures: CommandLoadFailure[] = [];
 	let error = false;
+	// Negated patterns exclude files from every other path
+	const exclude = paths
+		.filter((path): path is string => typeof path === 'string' && path.startsWith('!'))
+		.map((path) => globToRegExp(path.slice(1)));
 	for (let path of paths) {
 		let pathDestinations: PathLikeWithDestinationConfig['destinations'] | null = null;
-		let pathCommands: RESTPostAPIApplicationCommandsJSONBody[] = [];
 		if (typeof path === 'object' && 'path' in path) {
+			// Exclusions apply to every path, so they cannot have destinations of their own
+			if (typeof path.path === 'string' && path.path.startsWith('!')) {
+				console.error(
+					chalk`{redBright Error} ${path.path} cannot be an exclusion as a path with destinations, list it on its own`,
+				);
+				error = true;
+				continue;
+			}
+
 			pathDestinations = path.destinations;
 			path = path.path;
 		}
 
-		// If the file is a single file
-		if (typeof path !== 'string' || path.endsWith('.js') || path.endsWith('.cjs') || path.endsWith('.json')) {
-			try {
-				pathCommands.push(await getCommand(path, named));
-			} catch (error_) {
-				if (debug) {
-					console.log(chalk`{green Debug}`, error_);
-				}
+		if (typeof path === 'string' && path.startsWith('!')) continue;
+		let files: PathLike[];
+		try {
+			files = resolveCommandFiles(path, exclude);
+		} catch (error_) {
+			if (debug) {
+				console.log(chalk`{green Debug}`, error_);
 			}
-		} else {
-			// The path is a folder path
-			pathCommands = await getFolderCommands(path, debug, named);
+
+			failures.push({ error: error_, path: path.toString(), reason: getLoadFailureReason(error_) });
+			continue;
 		}
 
+		const { commands: pathCommands, failures: pathFailures } = await getFilesCommands(files, debug, named);
+		failures.push(...pathFailures);
+
 		if (pathCommands.length === 0) continue;
 		// Add all found commands to the appropriate array
 		for (const command of pathCommands) {
@@ -222,12 +588,30 @@ export async function getCommands(
 		commands: commands.length ? commands : undefined,
 		finalCommands: finalCommands.length ? finalCommands : undefined,
 		error,
+		failures,
 	};
 }
 
-export function storeConfig(config: InteractionsDeployConfig, name: string): boolean {
+/**
+ * Merges the settings that changed since loading a stored config over the config as defined in the file,
+ * so its profiles and references to environment variables are kept rather than replaced by their values
+ *
+ * @param config - The settings to store
+ * @param stored - The stored config the settings were loaded from
+ * @returns The config to write
+ */
+function mergeStoredConfig(config: InteractionsDeployConfig, stored: StoredConfig): InteractionsDeployConfig {
+	const merged: Record<string, unknown> = { ...stored.raw };
+	for (const [key, value] of Object.entries(config)) {
+		if (!isEqual(value, stored.config[key as keyof InteractionsDeployConfig])) merged[key] = value;
+	}
+
+	return merged as InteractionsDeployConfig;
+}
+
+export function storeConfig(config: InteractionsDeployConfig, name: string, stored?: StoredConfig | null): boolean {
 	try {
-		const mutableConfig = { ...config };
+		const mutableConfig = stored ? mergeStoredConfig(config, stored) : { ...config };
 		if (mutableConfig.commands?.length) {
 			delete mutableConfig.commandDefinitions;
 			if (
@@ -239,7 +623,14 @@ export function storeConfig(config: InteractionsDeployConfig, name: string): boo
 		}
 
 		// Don't store default config options
-		const defaultFalseKeys: (keyof InteractionsDeployConfig)[] = ['bulkOverwrite', 'debug', 'dryRun', 'force'];
+		const defaultFalseKeys: (keyof InteractionsDeployConfig)[] = [
+			'bulkOverwrite',
+			'debug',
+			'dryRun',
+			'force',
+			'prune',
+			'strict',
+		];
 		if (mutableConfig.developer === undefined) {
 			delete mutableConfig.developer;
 		}
@@ -251,8 +642,14 @@ export function storeConfig(config: InteractionsDeployConfig, name: string): boo
 			}
 		}
 
-		// Don't store the token
+		// Don't store the tokens
 		delete mutableConfig.token;
+		delete mutableConfig.permissionsToken;
+		delete mutableConfig.bearerToken;
+		delete mutableConfig.clientSecret;
+		mutableConfig.applications &&= mutableConfig.applications.map(
+			({ bearerToken, clientSecret, permissionsToken, token, ...application }) => application,
+		);
 		let stringifiedConfig = JSON.stringify(mutableConfig, null, '\t');
 		if (name.endsWith('.js') || name.endsWith('.cjs')) {
 			stringifiedConfig = `module.exports = ${stringifiedConfig.replaceAll(/"(?<key>\w+?)"(?=:)/gi, '$<key>')}`;
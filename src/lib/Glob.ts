@@ -0,0 +1,136 @@
+import { readdirSync } from 'node:fs';
+
+const GlobCharacters = /[*?[{]/;
+
+/**
+ * Directories that are never searched when walking a folder or expanding a glob
+ */
+const IgnoredDirectories = new Set(['node_modules', '.git']);
+
+/**
+ * Checks whether a path is a glob pattern rather than a literal path
+ *
+ * @param path - The path to check
+ */
+export function isGlob(path: string): boolean {
+	return path.startsWith('!') || GlobCharacters.test(path);
+}
+
+/**
+ * Normalizes a relative path for matching against globs, using forward slashes and no leading `./`
+ *
+ * @param path - The path to normalize
+ */
+export function normalizePath(path: string): string {
+	return path.replaceAll('\\', '/').replace(/^(?:\.\/)+/, '');
+}
+
+/**
+ * Converts a glob pattern to a regular expression matching normalized relative paths.
+ * Supports `**` (any number of folders), `*` and `?` (within a single path segment), `{a,b}` and `[abc]`
+ *
+ * @param pattern - The glob pattern, without a leading `!`
+ */
+export function globToRegExp(pattern: string): RegExp {
+	const glob = normalizePath(pattern);
+	let source = '';
+	let braceDepth = 0;
+	for (let index = 0; index < glob.length; index++) {
+		const char = glob[index]!;
+		switch (char) {
+			case '*':
+				if (glob[index + 1] === '*') {
+					index++;
+					if (glob[index + 1] === '/') {
+						index++;
+						source += '(?:.*/)?';
+					} else {
+						source += '.*';
+					}
+				} else {
+					source += '[^/]*';
+				}
+
+				break;
+			case '?':
+				source += '[^/]';
+				break;
+			case '{':
+				braceDepth++;
+				source += '(?:';
+				break;
+			case '}':
+				if (braceDepth) {
+					braceDepth--;
+					source += ')';
+				} else {
+					source += '\\}';
+				}
+
+				break;
+			case ',':
+				source += braceDepth ? '|' : ',';
+				break;
+			case '[': {
+				const end = glob.indexOf(']', index + 1);
+				if (end === -1) {
+					source += '\\[';
+					break;
+				}
+
+				const characters = glob.slice(index + 1, end).replace(/^!/, '^').replaceAll('\\', '\\\\');
+				source += `[${characters}]`;
+				index = end;
+				break;
+			}
+
+			default:
+				source += char.replace(/[$()+.\\^|]/, '\\$&');
+		}
+	}
+
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Recursively lists all files in a folder, skipping `node_modules` and `.git`
+ *
+ * @param path - The folder to list
+ * @returns The paths to the files, prefixed with the folder path
+ */
+export function walkFolder(path: string): string[] {
+	const files: string[] = [];
+	for (const entry of readdirSync(path, { withFileTypes: true })) {
+		const entryPath = `${path}/${entry.name}`;
+		if (entry.isDirectory()) {
+			if (!IgnoredDirectories.has(entry.name)) files.push(...walkFolder(entryPath));
+		} else {
+			files.push(entryPath);
+		}
+	}
+
+	return files;
+}
+
+/**
+ * Finds all files matching a glob pattern, relative to the current directory
+ *
+ * @param pattern - The glob pattern to expand
+ * @returns The normalized paths to the matching files
+ */
+export function expandGlob(pattern: string): string[] {
+	const glob = normalizePath(pattern);
+	// Only walk from the deepest folder that contains no glob characters
+	const segments = glob.split('/');
+	const firstGlobSegment = segments.findIndex((segment) => GlobCharacters.test(segment));
+	const base = segments.slice(0, firstGlobSegment === -1 ? segments.length - 1 : firstGlobSegment).join('/');
+	const matcher = globToRegExp(glob);
+	let files: string[];
+	try {
+		files = walkFolder(base || '.');
+	} catch {
+		return [];
+	}
+
+	return files.map((file) => normalizePath(file)).filter((file) => matcher.test(file));
+}
@@ -1,14 +1,72 @@
 import chalk from 'chalk';
-import { ApplicationCommandType, type Snowflake } from 'discord-api-types/v10';
+import {
+	type APIApplicationCommand,
+	ApplicationCommandType,
+	ApplicationIntegrationType,
+	InteractionContextType,
+	type Snowflake,
+} from 'discord-api-types/v10';
 import { table } from 'table';
-import type { DeployResponse, SingleDeployResponse } from './Deploy';
+import type {
+	CommandPermissionsResult,
+	DeployDestination,
+	DeployPlan,
+	DeployResponse,
+	SingleDeployPlan,
+	SingleDeployResponse,
+	UpdatedCommand,
+} from './Deploy.js';
+import { type CommandChange, CommandChangeType } from './Diff.js';
+import { type CommandLoadFailure, CommandLoadFailureReason } from './FileParser.js';
+import type { PulledCommands, PulledFiles } from './Pull.js';
+import { getContexts, getIntegrationTypes } from './Util.js';
+import type { ValidationError } from './Validator.js';
 
 const TypeNames = {
 	[ApplicationCommandType.ChatInput]: 'Chat Input',
 	[ApplicationCommandType.User]: 'User',
 	[ApplicationCommandType.Message]: 'Message',
+	[ApplicationCommandType.PrimaryEntryPoint]: 'Primary Entry Point',
 };
 
+const IntegrationTypeNames = {
+	[ApplicationIntegrationType.GuildInstall]: 'Guild Install',
+	[ApplicationIntegrationType.UserInstall]: 'User Install',
+};
+
+const ContextNames = {
+	[InteractionContextType.Guild]: 'Guild',
+	[InteractionContextType.BotDM]: 'Bot DM',
+	[InteractionContextType.PrivateChannel]: 'Private Channel',
+};
+
+const LoadFailureReasonNames = {
+	[CommandLoadFailureReason.InvalidShape]: 'Not a command',
+	[CommandLoadFailureReason.LoadError]: 'Failed to load',
+	[CommandLoadFailureReason.MissingExport]: 'Missing export',
+	[CommandLoadFailureReason.NotFound]: 'Not found',
+	[CommandLoadFailureReason.SyntaxError]: 'Syntax error',
+};
+
+function formatChange(change: CommandChange): string {
+	const oldValue = JSON.stringify(change.oldValue);
+	const newValue = JSON.stringify(change.newValue);
+	switch (change.type) {
+		case CommandChangeType.Added:
+			return chalk`  {greenBright +} ${change.path}: ${newValue}`;
+		case CommandChangeType.Removed:
+			return chalk`  {redBright -} ${change.path}: ${oldValue}`;
+		default:
+			return chalk`  {cyanBright ~} ${change.path}: ${oldValue} -> ${newValue}`;
+	}
+}
+
+function formatAvailability(command: Parameters<typeof getContexts>[0]): string {
+	const integrationTypes = getIntegrationTypes(command).map((type) => IntegrationTypeNames[type]);
+	const contexts = getContexts(command).map((context) => ContextNames[context]);
+	return `${integrationTypes.join(', ')} in ${contexts.join(', ')}`;
+}
+
 function outputFull(guildId: Snowflake | 'global', data: SingleDeployResponse, dry: boolean): void {
 	if (data.bulkError) {
 		console.log(chalk`Deploy to ${guildId} {redBright failed}: ${data.bulkError.message}`);
@@ -16,29 +74,50 @@ function outputFull(guildId: Snowflake | 'global', data: SingleDeployResponse, d
 	}
 
 	let header = chalk`Deploy to ${guildId} {greenBright successful}`;
-	if (data.errored.length) {
+	if (
+		data.errored.length ||
+		data.failedDeletes.length ||
+		data.permissions.some((result) => result.status === 'errored')
+	) {
 		header = chalk`Deploy to ${guildId} {yellow partially successful}`;
 	}
 
+	// Integration types and contexts only apply to global commands
+	const availabilityHeader = guildId === 'global' ? ['Availability'] : [];
+	const availability = (command: Parameters<typeof formatAvailability>[0]) =>
+		guildId === 'global' ? [formatAvailability(command)] : [];
 	let outputData: string[][];
 	if (dry) {
-		outputData = [['Type', 'Name', 'Status']];
+		outputData = [['Type', 'Name', 'Status', ...availabilityHeader]];
 		for (const skipped of data.skipped) {
 			outputData.push([
 				TypeNames[skipped.command.type ?? ApplicationCommandType.ChatInput],
 				skipped.name,
 				chalk`{yellow Skipped} (Dry Run)`,
+				...availability(skipped.command),
 			]);
 		}
 	} else {
-		outputData = [['Type', 'Name', 'ID', 'Version', 'Status']];
+		outputData = [['Type', 'Name', 'ID', 'Version', 'Status', ...availabilityHeader]];
 		for (const command of data.commands) {
 			outputData.push([
 				TypeNames[command.type],
 				command.name,
 				command.id,
 				command.version,
-				chalk.greenBright('Success'),
+				chalk.greenBright('Created'),
+				...availability(command),
+			]);
+		}
+
+		for (const updated of data.updated) {
+			outputData.push([
+				TypeNames[updated.result.type],
+				updated.name,
+				updated.result.id,
+				updated.result.version,
+				chalk`{cyanBright Updated} (from ${updated.existing.version})`,
+				...availability(updated.result),
 			]);
 		}
 
@@ -49,6 +128,18 @@ function outputFull(guildId: Snowflake | 'global', data: SingleDeployResponse, d
 				skipped.id!,
 				skipped.existing!.version,
 				chalk`{yellow Skipped} (Matched Existing)`,
+				...availability(skipped.existing!),
+			]);
+		}
+
+		for (const deleted of data.deleted) {
+			outputData.push([
+				TypeNames[deleted.type],
+				deleted.name,
+				deleted.id,
+				deleted.version,
+				chalk`{magentaBright Deleted} (Pruned)`,
+				...availability(deleted),
 			]);
 		}
 
@@ -56,14 +147,242 @@ function outputFull(guildId: Snowflake | 'global', data: SingleDeployResponse, d
 			outputData.push([
 				TypeNames[errored.command.type ?? ApplicationCommandType.ChatInput],
 				errored.name,
-				'N/A',
-				'N/A',
+				errored.existing?.id ?? 'N/A',
+				errored.existing?.version ?? 'N/A',
 				chalk`{redBright Failed} (${errored.error.message})`,
+				...availability(errored.command),
+			]);
+		}
+
+		for (const failed of data.failedDeletes) {
+			outputData.push([
+				TypeNames[failed.existing.type],
+				failed.name,
+				failed.existing.id,
+				failed.existing.version,
+				chalk`{redBright Failed} (Prune: ${failed.error.message})`,
+				...availability(failed.existing),
 			]);
 		}
 	}
 
 	console.log(table(outputData, { columnDefault: { width: 30, wrapWord: true }, header: { content: header } }));
+	outputChanges(data.updated);
+	outputPermissions(guildId, data.permissions);
+}
+
+function outputPermissions(guildId: Snowflake | 'global', results: CommandPermissionsResult[]): void {
+	if (!results.length) return;
+	const outputData = [['Type', 'Name', 'Guild', 'Status']];
+	for (const result of results) {
+		let status: string;
+		if (result.status === 'errored') {
+			status = chalk`{redBright Failed} (${result.error?.message ?? 'Unknown error'})`;
+		} else if (result.status === 'updated') {
+			status = chalk`{cyanBright Updated} (${result.permissions.length} overwrites)`;
+		} else {
+			status = chalk`{yellow Skipped} (Matched Existing)`;
+		}
+
+		outputData.push([TypeNames[result.type], result.name, result.guildId, status]);
+	}
+
+	console.log(
+		table(outputData, {
+			columnDefault: { width: 30, wrapWord: true },
+			header: { content: `Command permissions for ${guildId}` },
+		}),
+	);
+}
+
+function outputChanges(updates: Pick<UpdatedCommand, 'changes' | 'name'>[]): void {
+	for (const updated of updates) {
+		if (!updated.changes.length) continue;
+		console.log(chalk`{cyanBright Changes} to ${updated.name}:`);
+		for (const change of updated.changes) {
+			console.log(formatChange(change));
+		}
+	}
+}
+
+function outputSinglePlan(guildId: Snowflake | 'global', data: SingleDeployPlan, prune: boolean): void {
+	if (data.error) {
+		console.log(chalk`Plan for ${guildId} {redBright failed}: ${data.error.message}`);
+		return;
+	}
+
+	const outputData = [['Type', 'Name', 'ID', 'Status']];
+	for (const command of data.created) {
+		outputData.push([
+			TypeNames[command.type ?? ApplicationCommandType.ChatInput],
+			command.name,
+			'N/A',
+			chalk.greenBright('Create'),
+		]);
+	}
+
+	for (const updated of data.updated) {
+		outputData.push([
+			TypeNames[updated.existing.type],
+			updated.name,
+			updated.existing.id,
+			chalk`{cyanBright Update} (${updated.changes.length} changes)`,
+		]);
+	}
+
+	for (const unchanged of data.unchanged) {
+		outputData.push([TypeNames[unchanged.existing!.type], unchanged.name, unchanged.id!, chalk.yellow('Unchanged')]);
+	}
+
+	for (const remote of data.remoteOnly) {
+		outputData.push([
+			TypeNames[remote.type],
+			remote.name,
+			remote.id,
+			prune ? chalk`{magentaBright Delete} (Pruned)` : chalk`{gray Remote Only} (use --prune to delete)`,
+		]);
+	}
+
+	console.log(
+		table(outputData, { columnDefault: { width: 30, wrapWord: true }, header: { content: `Plan for ${guildId}` } }),
+	);
+	outputChanges(data.updated);
+}
+
+export function outputPlan(plan: DeployPlan, debug: boolean): void {
+	if (plan.error) {
+		console.log(chalk.redBright('Planning Failed:'), debug ? plan.error : plan.error.message);
+		return;
+	}
+
+	const destinations: [Snowflake | 'global', SingleDeployPlan][] = [...plan.guilds];
+	if (plan.global) destinations.unshift(['global', plan.global]);
+	let created = 0;
+	let updated = 0;
+	let deleted = 0;
+	let unchanged = 0;
+	for (const [id, data] of destinations) {
+		outputSinglePlan(id, data, plan.prune);
+		created += data.created.length;
+		updated += data.updated.length;
+		unchanged += data.unchanged.length;
+		if (plan.prune) deleted += data.remoteOnly.length;
+	}
+
+	console.log(
+		chalk`Plan: {greenBright ${created}} to create, {cyanBright ${updated}} to update, {magentaBright ${deleted}} to delete, {yellow ${unchanged}} unchanged`,
+	);
+}
+
+/**
+ * Outputs the header separating the output of each application when deploying to several applications
+ *
+ * @param applicationId - The id of the application
+ */
+export function outputApplicationHeader(applicationId: Snowflake): void {
+	console.log(chalk`{blueBright Application} ${applicationId}`);
+}
+
+/**
+ * Outputs the command files that were skipped as they failed to load, to stderr so JSON output is unaffected
+ *
+ * @param failures - The files that failed to load
+ * @param strict - Whether the deploy is aborted due to the failures
+ */
+export function outputLoadFailures(failures: CommandLoadFailure[], strict: boolean): void {
+	if (!failures.length) return;
+	const label = strict ? chalk.redBright('Error') : chalk.yellow('Warning');
+	console.error(
+		`${label} ${failures.length} command file${failures.length === 1 ? '' : 's'} failed to load${
+			strict ? ', aborting (strict mode)' : ' and will not be deployed'
+		}:`,
+	);
+	for (const failure of failures) {
+		const message = failure.error instanceof Error ? failure.error.message.split('\n')[0] : String(failure.error);
+		console.error(chalk`  - ${failure.path}: {redBright ${LoadFailureReasonNames[failure.reason]}} (${message})`);
+	}
+}
+
+/**
+ * Outputs the problems found when validating command definitions, to stderr so JSON output is unaffected
+ *
+ * @param errors - The problems found
+ */
+export function outputValidationErrors(errors: ValidationError[]): void {
+	console.error(
+		chalk`{redBright Error} ${errors.length} problem${errors.length === 1 ? '' : 's'} found in command definitions:`,
+	);
+	for (const error of errors) {
+		const path = error.path ? ` ${error.path}` : '';
+		console.error(chalk`  - ${TypeNames[error.type]} command {yellowBright ${error.command}}${path}: ${error.message}`);
+	}
+}
+
+/**
+ * Outputs a table of the commands deployed to each destination
+ *
+ * @param commands - The commands deployed to each destination
+ */
+export function outputCommandList(commands: Map<DeployDestination, APIApplicationCommand[]>): void {
+	for (const [destination, destinationCommands] of commands) {
+		const location = destination === 'global' ? 'globally' : `in ${destination}`;
+		if (!destinationCommands.length) {
+			console.log(chalk`{gray No commands} deployed ${location}`);
+			continue;
+		}
+
+		const outputData = [['Type', 'Name', 'ID', 'Version', 'Description', 'Options', 'Default Permissions']];
+		for (const command of destinationCommands) {
+			let permissions = command.default_member_permissions ?? 'Everyone';
+			if (permissions === '0') permissions = 'Administrators';
+			outputData.push([
+				TypeNames[command.type],
+				command.name,
+				command.id,
+				command.version,
+				command.description || 'N/A',
+				`${command.options?.length ?? 0}`,
+				permissions,
+			]);
+		}
+
+		console.log(
+			table(outputData, {
+				columnDefault: { width: 20, wrapWord: true },
+				header: { content: `Commands deployed ${location}` },
+			}),
+		);
+	}
+}
+
+/**
+ * Outputs the command files written when pulling commands, and the commands and files that were left out
+ *
+ * @param pulled - The pulled commands
+ * @param files - The paths of the files written and of the existing files that were left unchanged
+ */
+export function outputPull(pulled: PulledCommands, files: PulledFiles): void {
+	for (const path of files.written) {
+		console.log(chalk`{greenBright Wrote} ${path}`);
+	}
+
+	for (const path of files.skipped) {
+		console.log(chalk`{yellow Skipped} ${path} (already exists, use --overwrite to replace it)`);
+	}
+
+	for (const conflict of pulled.conflicts) {
+		console.error(
+			chalk`{yellow Warning} ${TypeNames[conflict.type]} command {yellowBright ${conflict.name}} in ${
+				conflict.skipped
+			} differs from the one in ${conflict.kept} and was not pulled`,
+		);
+	}
+
+	console.log(
+		chalk`{cyan Pulled} ${pulled.definitions.length} command${pulled.definitions.length === 1 ? '' : 's'} from ${
+			Object.keys(pulled.destinations).length
+		} destination${Object.keys(pulled.destinations).length === 1 ? '' : 's'}`,
+	);
 }
 
 export default function outputResults(
@@ -103,14 +422,19 @@ export default function outputResults(
 	if (disableSummary) {
 		let failed = true;
 		let success = true;
-		if (results.global?.commands.length || results.global?.skipped.length) {
+		if (
+			results.global?.commands.length ||
+			results.global?.updated.length ||
+			results.global?.skipped.length ||
+			results.global?.deleted.length
+		) {
 			failed = false;
-			if (results.global.errored.length) success = false;
+			if (results.global.errored.length || results.global.failedDeletes.length) success = false;
 		}
 
 		if (failed || success) {
 			for (const data of results.guilds.values()) {
-				if (data.commands.length || data.skipped.length) failed = false;
+				if (data.commands.length || data.updated.length || data.skipped.length || data.deleted.length) failed = false;
 				if (data.errored.length) success = true;
 				if (!failed && !success) break;
 			}
@@ -123,15 +447,17 @@ export default function outputResults(
 		return;
 	}
 
-	const outputData = [['Destination', 'Successful', 'Skipped', 'Errored']];
+	const outputData = [['Destination', 'Created', 'Updated', 'Skipped', 'Deleted', 'Errored']];
 	if (results.global) {
 		outputData.push([
 			'Global',
 			chalk.greenBright(results.global.commands.length),
+			chalk.cyanBright(results.global.updated.length),
 			chalk.yellow(results.global.skipped.length),
+			chalk.magentaBright(results.global.deleted.length),
 			results.global.bulkError
 				? chalk`{redBright All} (${results.global.bulkError.message})`
-				: chalk.redBright(results.global.errored.length),
+				: chalk.redBright(results.global.errored.length + results.global.failedDeletes.length),
 		]);
 	}
 
@@ -139,8 +465,12 @@ export default function outputResults(
 		outputData.push([
 			`Guild (${id})`,
 			chalk.greenBright(data.commands.length),
+			chalk.cyanBright(data.updated.length),
 			chalk.yellow(data.skipped.length),
-			data.bulkError ? chalk`{redBright All} (${data.bulkError.message})` : chalk.redBright(data.errored.length),
+			chalk.magentaBright(data.deleted.length),
+			data.bulkError
+				? chalk`{redBright All} (${data.bulkError.message})`
+				: chalk.redBright(data.errored.length + data.failedDeletes.length),
 		]);
 	}
 
@@ -0,0 +1,51 @@
+import { Buffer } from 'node:buffer';
+import { URLSearchParams } from 'node:url';
+import { REST } from '@discordjs/rest';
+import {
+	OAuth2Scopes,
+	type RESTPostOAuth2ClientCredentialsResult,
+	Routes,
+	type Snowflake,
+} from 'discord-api-types/v10';
+
+/**
+ * The credentials of an application, used to get a bearer token for the application itself
+ */
+export interface ClientCredentials {
+	/**
+	 * The id of the application
+	 */
+	clientId: Snowflake;
+	/**
+	 * The client secret of the application, found in the OAuth2 section of the developer portal
+	 */
+	clientSecret: string;
+}
+
+/**
+ * Exchanges the credentials of an application for a bearer token using the client credentials grant.
+ * The token only has the `applications.commands.update` scope, so it can deploy commands but do nothing else
+ *
+ * @param credentials - The credentials of the application
+ * @param rest - The REST instance used to call the API, a new instance is created when not provided
+ * @returns The token as received from discord
+ */
+export async function getClientCredentialsToken(
+	credentials: ClientCredentials,
+	rest: REST = new REST({ version: '10' }),
+): Promise<RESTPostOAuth2ClientCredentialsResult> {
+	const { clientId, clientSecret } = credentials;
+	const body = new URLSearchParams({
+		grant_type: 'client_credentials',
+		scope: OAuth2Scopes.ApplicationsCommandsUpdate,
+	});
+	return (await rest.post(Routes.oauth2TokenExchange(), {
+		auth: false,
+		body: body.toString(),
+		headers: {
+			Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
+			'Content-Type': 'application/x-www-form-urlencoded',
+		},
+		passThroughBody: true,
+	})) as RESTPostOAuth2ClientCredentialsResult;
+}
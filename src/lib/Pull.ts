@@ -0,0 +1,242 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+	type APIApplicationCommand,
+	type APIApplicationCommandOption,
+	ApplicationCommandType,
+	type RESTPostAPIApplicationCommandsJSONBody,
+} from 'discord-api-types/v10';
+import { default as isEqual } from 'fast-deep-equal';
+import type { InteractionsDeployDestinationsConfig } from '../bin/deploy-interactions';
+import type { DeployDestination } from './Deploy.js';
+import { getContexts, getIntegrationTypes } from './Util.js';
+
+/**
+ * The formats command definitions can be written in
+ */
+export type PullFormat = 'js' | 'json';
+
+/**
+ * A deployed command that was not pulled as a command with the same name and type was already pulled from another
+ * destination with a different definition
+ */
+export interface PullConflict {
+	/**
+	 * The destination the command was pulled from first, its definition is the one written
+	 */
+	kept: DeployDestination;
+	/**
+	 * The name of the command
+	 */
+	name: string;
+	/**
+	 * The destination of the command that was not pulled
+	 */
+	skipped: DeployDestination;
+	/**
+	 * The type of the command
+	 */
+	type: ApplicationCommandType;
+}
+
+/**
+ * The local definitions of a set of deployed commands
+ */
+export interface PulledCommands {
+	/**
+	 * The commands that differ between destinations and were only pulled from the first
+	 */
+	conflicts: PullConflict[];
+	/**
+	 * The normalized definition of every distinct command
+	 */
+	definitions: RESTPostAPIApplicationCommandsJSONBody[];
+	/**
+	 * The destinations of the commands, in the format of the `commandDestinations` config
+	 */
+	destinations: InteractionsDeployDestinationsConfig;
+}
+
+/**
+ * The command files written when pulling commands
+ */
+export interface PulledFiles {
+	/**
+	 * The paths of the existing files that were left unchanged
+	 */
+	skipped: string[];
+	/**
+	 * The paths of the files written
+	 */
+	written: string[];
+}
+
+/**
+ * The suffix of the file name of commands that are not chat input commands, so commands of different types can share
+ * a name
+ */
+const TypeFileSuffixes: Partial<Record<ApplicationCommandType, string>> = {
+	[ApplicationCommandType.User]: '.user',
+	[ApplicationCommandType.Message]: '.message',
+	[ApplicationCommandType.PrimaryEntryPoint]: '.entry-point',
+};
+
+/**
+ * Removes the fields of an option that are set to the defaults discord applies when they are omitted
+ *
+ * @param option - The option received from discord
+ */
+function normalizeOption(option: APIApplicationCommandOption): APIApplicationCommandOption {
+	const normalized: Record<string, unknown> = { ...option };
+	delete normalized.name_localized;
+	delete normalized.description_localized;
+	if (normalized.name_localizations === null) delete normalized.name_localizations;
+	if (normalized.description_localizations === null) delete normalized.description_localizations;
+	if (normalized.required === false) delete normalized.required;
+	if (normalized.autocomplete === false) delete normalized.autocomplete;
+	if ('options' in option && option.options) normalized.options = option.options.map(normalizeOption);
+	if ('choices' in option && option.choices) {
+		normalized.choices = option.choices.map(({ name_localizations, ...choice }) =>
+			name_localizations ? { ...choice, name_localizations } : choice,
+		);
+	}
+
+	return normalized as unknown as APIApplicationCommandOption;
+}
+
+/**
+ * Converts a command received from discord to a command definition, removing the fields managed by discord
+ * (`id`, `version`, `application_id`, `guild_id`) and the fields set to the defaults discord applies when they are omitted
+ *
+ * @param command - The command received from discord
+ * @returns The command definition
+ */
+export function normalizeCommand(command: APIApplicationCommand): RESTPostAPIApplicationCommandsJSONBody {
+	const {
+		id,
+		application_id,
+		version,
+		guild_id,
+		name_localized,
+		description_localized,
+		...definition
+	}: APIApplicationCommand & { description_localized?: string; name_localized?: string } = command;
+	const normalized: Record<string, unknown> = definition;
+	if (command.default_member_permissions === null) delete normalized.default_member_permissions;
+	if (command.name_localizations === null) delete normalized.name_localizations;
+	if (command.description_localizations === null) delete normalized.description_localizations;
+
+	if (command.type !== ApplicationCommandType.ChatInput && command.description === '') delete normalized.description;
+	if (command.dm_permission !== false) delete normalized.dm_permission;
+	if (!command.nsfw) delete normalized.nsfw;
+	if (isEqual(getIntegrationTypes(command), getIntegrationTypes({}))) delete normalized.integration_types;
+	if (isEqual(getContexts(command), getContexts({}))) delete normalized.contexts;
+	if (command.options) normalized.options = command.options.map(normalizeOption);
+	return normalized as unknown as RESTPostAPIApplicationCommandsJSONBody;
+}
+
+/**
+ * Converts the commands deployed to each destination to local definitions, a command deployed to several destinations
+ * is only defined once
+ *
+ * @param remote - The commands deployed to each destination
+ * @returns The definitions and their destinations
+ */
+export function pullCommands(remote: Map<DeployDestination, APIApplicationCommand[]>): PulledCommands {
+	const pulled: PulledCommands = { conflicts: [], definitions: [], destinations: {} };
+	const sources = new Map<RESTPostAPIApplicationCommandsJSONBody, DeployDestination>();
+	for (const [destination, commands] of remote) {
+		const destinationCommands: NonNullable<InteractionsDeployDestinationsConfig['global']> = [];
+		for (const command of commands) {
+			const definition = normalizeCommand(command);
+			const existing = pulled.definitions.find(
+				(pulledDefinition) => pulledDefinition.name === command.name && pulledDefinition.type === command.type,
+			);
+			if (existing && !isEqual(existing, definition)) {
+				pulled.conflicts.push({
+					kept: sources.get(existing)!,
+					name: command.name,
+					skipped: destination,
+					type: command.type,
+				});
+				continue;
+			}
+
+			if (!existing) {
+				pulled.definitions.push(definition);
+				sources.set(definition, destination);
+			}
+
+			destinationCommands.push({ name: command.name, type: command.type });
+		}
+
+		pulled.destinations[destination] = destinationCommands;
+	}
+
+	return pulled;
+}
+
+/**
+ * Gets the name of the file a command definition is written to, only containing characters that are safe in file names
+ *
+ * @param command - The command definition
+ * @param format - The format the definition is written in
+ */
+export function getCommandFileName(command: RESTPostAPIApplicationCommandsJSONBody, format: PullFormat): string {
+	const name = command.name.replaceAll(/[^\p{L}\p{N}_-]+/gu, '-');
+	return `${name}${TypeFileSuffixes[command.type ?? ApplicationCommandType.ChatInput] ?? ''}.${format}`;
+}
+
+/**
+ * Checks whether the package in the current directory uses ES modules for `.js` files
+ */
+function isModulePackage() {
+	try {
+		return (JSON.parse(readFileSync('package.json', 'utf8')) as { type?: string }).type === 'module';
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Writes each command definition to its own file in a folder, as a JSON file or a JS module exporting the definition
+ *
+ * @param folder - The folder to write the files to, created if it does not exist
+ * @param definitions - The command definitions
+ * @param format - The format to write the definitions in
+ * @param overwrite - Whether to replace existing files
+ * @param namedExport - The name to export JS definitions under, the default export is used when not provided
+ * @returns The paths of the files written and of the existing files that were left unchanged
+ */
+export function writeCommandFiles(
+	folder: string,
+	definitions: RESTPostAPIApplicationCommandsJSONBody[],
+	format: PullFormat,
+	overwrite: boolean,
+	namedExport?: string,
+): PulledFiles {
+	mkdirSync(folder, { recursive: true });
+	const esm = format === 'js' && isModulePackage();
+	const files: PulledFiles = { skipped: [], written: [] };
+	for (const definition of definitions) {
+		const path = join(folder, getCommandFileName(definition, format));
+		if (!overwrite && existsSync(path)) {
+			files.skipped.push(path);
+			continue;
+		}
+
+		let content = JSON.stringify(definition, null, '\t');
+		if (format === 'js') {
+			if (esm) {
+				content = namedExport ? `export const ${namedExport} = ${content};` : `export default ${content};`;
+			} else {
+				content = `${namedExport ? `exports.${namedExport}` : 'module.exports'} = ${content};`;
+			}
+		}
+
+		writeFileSync(path, `${content}\n`);
+		files.written.push(path);
+	}
+
+	return files;
+}
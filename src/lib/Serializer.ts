@@ -0,0 +1,416 @@
+import type { DiscordAPIError, HTTPError } from '@discordjs/rest';
+import {
+	type APIApplicationCommand,
+	type APIApplicationCommandPermission,
+	ApplicationCommandType,
+	type RESTPostAPIApplicationCommandsJSONBody,
+	type Snowflake,
+} from 'discord-api-types/v10';
+import type {
+	DeployDestination,
+	DeployPlan,
+	DeployResponse,
+	SingleDeployPlan,
+	SingleDeployResponse,
+} from './Deploy.js';
+import type { CommandChange } from './Diff.js';
+
+/**
+ * The version of the JSON output schema, incremented on breaking changes to it
+ */
+export const OutputSchemaVersion = 1;
+
+/**
+ * An error encountered while calling the API
+ */
+export interface ErrorJSON {
+	/**
+	 * The error code reported by discord, null if the error did not come from discord
+	 */
+	code: number | string | null;
+	/**
+	 * The error message
+	 */
+	message: string;
+	/**
+	 * The http status of the response, null if no response was received
+	 */
+	status: number | null;
+}
+
+/**
+ * A command as identified in the JSON output
+ */
+export interface CommandJSON {
+	/**
+	 * The id of the command, null if it does not exist on discord
+	 */
+	id: Snowflake | null;
+	/**
+	 * The name of the command
+	 */
+	name: string;
+	/**
+	 * The type of the command
+	 */
+	type: ApplicationCommandType;
+	/**
+	 * The version of the command, null if it does not exist on discord
+	 */
+	version: Snowflake | null;
+}
+
+/**
+ * The result of deploying the permission overwrites of a command in a single guild
+ */
+export interface CommandPermissionsJSON {
+	/**
+	 * The id of the command
+	 */
+	commandId: Snowflake;
+	/**
+	 * The error encountered while updating the permissions, null if it succeeded
+	 */
+	error: ErrorJSON | null;
+	/**
+	 * The id of the guild the permissions apply in
+	 */
+	guildId: Snowflake;
+	/**
+	 * The name of the command
+	 */
+	name: string;
+	/**
+	 * The configured permission overwrites
+	 */
+	permissions: APIApplicationCommandPermission[];
+	/**
+	 * The permission overwrites that existed before the deploy
+	 */
+	previous: APIApplicationCommandPermission[];
+	/**
+	 * Whether the permissions were updated, already up to date (skipped) or failed to update
+	 */
+	status: 'errored' | 'skipped' | 'updated';
+	/**
+	 * The type of the command
+	 */
+	type: ApplicationCommandType;
+}
+
+/**
+ * The JSON output for a deploy to a single destination, either global or guild
+ */
+export interface DestinationResultJSON {
+	/**
+	 * The error for deploying all commands in a bulk overwrite
+	 */
+	bulkError: ErrorJSON | null;
+	/**
+	 * The commands that were created (or overwritten when forced or bulk overwriting)
+	 */
+	created: CommandJSON[];
+	/**
+	 * The commands that were deleted when pruning
+	 */
+	deleted: CommandJSON[];
+	/**
+	 * The commands that failed to deploy
+	 */
+	errored: (CommandJSON & { error: ErrorJSON })[];
+	/**
+	 * The existing commands that failed to be deleted when pruning
+	 */
+	failedDeletes: (CommandJSON & { error: ErrorJSON })[];
+	/**
+	 * The permission overwrites of the commands, per guild they apply in
+	 */
+	permissions: CommandPermissionsJSON[];
+	/**
+	 * The commands that were not deployed, either as they were up to date or it was a dry run
+	 */
+	skipped: (CommandJSON & { reason: 'dry-run' | 'up-to-date' })[];
+	/**
+	 * The existing commands that were edited, with their version before the edit and the changes made
+	 */
+	updated: (CommandJSON & { changes: CommandChange[]; previousVersion: Snowflake })[];
+}
+
+/**
+ * The JSON output for a full deploy
+ */
+export interface DeployResultJSON {
+	/**
+	 * The id of the dev guild deployed to if in dev mode
+	 */
+	dev: Snowflake | null;
+	/**
+	 * If the entire process was halted due to unauth or similar, the error that was encountered
+	 */
+	error: ErrorJSON | null;
+	/**
+	 * The global result, if deployed globally
+	 */
+	global: DestinationResultJSON | null;
+	/**
+	 * The guild ids mapped to their individual results
+	 */
+	guilds: Record<Snowflake, DestinationResultJSON>;
+	/**
+	 * The version of this schema
+	 */
+	schemaVersion: typeof OutputSchemaVersion;
+}
+
+/**
+ * The JSON output for deploying to several applications
+ */
+export interface ApplicationsResultJSON {
+	/**
+	 * The application ids mapped to their individual results
+	 */
+	applications: Record<Snowflake, Omit<DeployResultJSON, 'schemaVersion'>>;
+	/**
+	 * The version of this schema
+	 */
+	schemaVersion: typeof OutputSchemaVersion;
+}
+
+/**
+ * The JSON output for the planned changes to a single destination, either global or guild
+ */
+export interface DestinationPlanJSON {
+	/**
+	 * The commands that would be created
+	 */
+	created: CommandJSON[];
+	/**
+	 * The error encountered while fetching the existing commands
+	 */
+	error: ErrorJSON | null;
+	/**
+	 * The existing commands that have no local definition, these would be deleted when pruning
+	 */
+	remoteOnly: CommandJSON[];
+	/**
+	 * The commands that are already up to date
+	 */
+	unchanged: CommandJSON[];
+	/**
+	 * The existing commands that would be edited, with the changes that would be made
+	 */
+	updated: (CommandJSON & { changes: CommandChange[] })[];
+}
+
+/**
+ * The JSON output for the planned changes of a full deploy
+ */
+export interface DeployPlanJSON {
+	/**
+	 * The id of the dev guild planned for if in dev mode
+	 */
+	dev: Snowflake | null;
+	/**
+	 * If the entire process was halted due to unauth or similar, the error that was encountered
+	 */
+	error: ErrorJSON | null;
+	/**
+	 * The global plan, if deploying globally
+	 */
+	global: DestinationPlanJSON | null;
+	/**
+	 * The guild ids mapped to their individual plans
+	 */
+	guilds: Record<Snowflake, DestinationPlanJSON>;
+	/**
+	 * Whether commands only existing remotely would be deleted
+	 */
+	prune: boolean;
+	/**
+	 * The version of this schema
+	 */
+	schemaVersion: typeof OutputSchemaVersion;
+}
+
+function serializeError(error: DiscordAPIError | Error | HTTPError): ErrorJSON {
+	return {
+		code: 'code' in error ? (error.code as number | string) : null,
+		message: error.message,
+		status: 'status' in error ? (error.status as number) : null,
+	};
+}
+
+function serializeExisting(command: APIApplicationCommand): CommandJSON {
+	return { id: command.id, name: command.name, type: command.type, version: command.version };
+}
+
+function serializeDefinition(command: RESTPostAPIApplicationCommandsJSONBody): CommandJSON {
+	return { id: null, name: command.name, type: command.type ?? ApplicationCommandType.ChatInput, version: null };
+}
+
+function serializeDestination(data: SingleDeployResponse): DestinationResultJSON {
+	return {
+		bulkError: data.bulkError ? serializeError(data.bulkError) : null,
+		created: data.commands.map(serializeExisting),
+		updated: data.updated.map((updated) => ({
+			...serializeExisting(updated.result),
+			previousVersion: updated.existing.version,
+			changes: updated.changes,
+		})),
+		skipped: data.skipped.map((skipped) => ({
+			...(skipped.existing ? serializeExisting(skipped.existing) : serializeDefinition(skipped.command)),
+			reason: skipped.existing ? 'up-to-date' : 'dry-run',
+		})),
+		deleted: data.deleted.map(serializeExisting),
+		errored: data.errored.map((errored) => ({
+			...(errored.existing ? serializeExisting(errored.existing) : serializeDefinition(errored.command)),
+			error: serializeError(errored.error),
+		})),
+		failedDeletes: data.failedDeletes.map((failed) => ({
+			...serializeExisting(failed.existing),
+			error: serializeError(failed.error),
+		})),
+		permissions: data.permissions.map((result) => ({
+			commandId: result.commandId,
+			error: result.error ? serializeError(result.error) : null,
+			guildId: result.guildId,
+			name: result.name,
+			permissions: result.permissions,
+			previous: result.previous,
+			status: result.status,
+			type: result.type,
+		})),
+	};
+}
+
+function serializeDestinationPlan(data: SingleDeployPlan): DestinationPlanJSON {
+	return {
+		error: data.error ? serializeError(data.error) : null,
+		created: data.created.map(serializeDefinition),
+		updated: data.updated.map((updated) => ({ ...serializeExisting(updated.existing), changes: updated.changes })),
+		unchanged: data.unchanged.map((unchanged) => serializeExisting(unchanged.existing!)),
+		remoteOnly: data.remoteOnly.map(serializeExisting),
+	};
+}
+
+/**
+ * Converts the results of a deploy into their stable JSON representation
+ *
+ * @param results - The results of the deploy
+ * @returns The JSON ready results
+ */
+export function serializeResults(results: DeployResponse): DeployResultJSON {
+	const guilds: Record<Snowflake, DestinationResultJSON> = {};
+	for (const [id, data] of results.guilds) {
+		guilds[id] = serializeDestination(data);
+	}
+
+	return {
+		schemaVersion: OutputSchemaVersion,
+		dev: results.dev ?? null,
+		error: results.error ? serializeError(results.error) : null,
+		global: results.global ? serializeDestination(results.global) : null,
+		guilds,
+	};
+}
+
+/**
+ * Converts the planned changes of a deploy into their stable JSON representation
+ *
+ * @param plan - The planned changes
+ * @returns The JSON ready plan
+ */
+export function serializePlan(plan: DeployPlan): DeployPlanJSON {
+	const guilds: Record<Snowflake, DestinationPlanJSON> = {};
+	for (const [id, data] of plan.guilds) {
+		guilds[id] = serializeDestinationPlan(data);
+	}
+
+	return {
+		schemaVersion: OutputSchemaVersion,
+		dev: plan.dev ?? null,
+		error: plan.error ? serializeError(plan.error) : null,
+		global: plan.global ? serializeDestinationPlan(plan.global) : null,
+		guilds,
+		prune: plan.prune,
+	};
+}
+
+/**
+ * The JSON output for the planned changes of deploying to several applications
+ */
+export interface ApplicationsPlanJSON {
+	/**
+	 * The application ids mapped to their individual plans
+	 */
+	applications: Record<Snowflake, Omit<DeployPlanJSON, 'schemaVersion'>>;
+	/**
+	 * The version of this schema
+	 */
+	schemaVersion: typeof OutputSchemaVersion;
+}
+
+/**
+ * Converts the results of deploying to several applications into their stable JSON representation
+ *
+ * @param results - The results of each deploy, keyed by application id
+ * @returns The JSON ready results
+ */
+export function serializeApplicationResults(results: Map<Snowflake, DeployResponse>): ApplicationsResultJSON {
+	const applications: Record<Snowflake, Omit<DeployResultJSON, 'schemaVersion'>> = {};
+	for (const [id, data] of results) {
+		const { schemaVersion, ...result } = serializeResults(data);
+		applications[id] = result;
+	}
+
+	return { schemaVersion: OutputSchemaVersion, applications };
+}
+
+/**
+ * Converts the planned changes of deploying to several applications into their stable JSON representation
+ *
+ * @param plans - The planned changes of each deploy, keyed by application id
+ * @returns The JSON ready plans
+ */
+export function serializeApplicationPlans(plans: Map<Snowflake, DeployPlan>): ApplicationsPlanJSON {
+	const applications: Record<Snowflake, Omit<DeployPlanJSON, 'schemaVersion'>> = {};
+	for (const [id, data] of plans) {
+		const { schemaVersion, ...plan } = serializePlan(data);
+		applications[id] = plan;
+	}
+
+	return { schemaVersion: OutputSchemaVersion, applications };
+}
+
+/**
+ * The JSON output for the commands deployed to an application
+ */
+export interface CommandListJSON {
+	/**
+	 * The global commands, null if they were not listed
+	 */
+	global: APIApplicationCommand[] | null;
+	/**
+	 * The guild ids mapped to the commands deployed in them
+	 */
+	guilds: Record<Snowflake, APIApplicationCommand[]>;
+	/**
+	 * The version of this schema
+	 */
+	schemaVersion: typeof OutputSchemaVersion;
+}
+
+/**
+ * Converts the commands deployed to each destination into their stable JSON representation
+ *
+ * @param commands - The commands deployed to each destination
+ * @returns The JSON ready list of commands
+ */
+export function serializeCommandList(commands: Map<DeployDestination, APIApplicationCommand[]>): CommandListJSON {
+	const guilds: Record<Snowflake, APIApplicationCommand[]> = {};
+	for (const [destination, destinationCommands] of commands) {
+		if (destination !== 'global') guilds[destination] = destinationCommands;
+	}
+
+	return { schemaVersion: OutputSchemaVersion, global: commands.get('global') ?? null, guilds };
+}
@@ -0,0 +1,45 @@
+import { readFileSync } from 'node:fs';
+import type * as TypeScript from 'typescript';
+
+/**
+ * The extensions of TypeScript files that can be loaded once {@link registerTypeScript} has been called
+ */
+export const TypeScriptExtensions = ['.ts', '.mts', '.cts'];
+
+let registered = false;
+
+/**
+ * Registers a require hook that transpiles TypeScript files (and the TypeScript files they import) in process.
+ * The transpiled output is always CommonJS, so both ESM and CJS syntax are supported.
+ * This requires the `typescript` package to be installed alongside this package
+ */
+export function registerTypeScript() {
+	if (registered) return;
+	let ts: typeof TypeScript;
+	try {
+		// eslint-disable-next-line @typescript-eslint/no-require-imports, @typescript-eslint/no-var-requires
+		ts = require('typescript') as typeof TypeScript;
+	} catch {
+		throw new Error('Loading TypeScript files requires the typescript package to be installed');
+	}
+
+	// module.register() only hooks imports and needs node 20.6, while every supported node version still honours
+	// require.extensions without a loader flag
+	for (const extension of TypeScriptExtensions) {
+		// eslint-disable-next-line n/no-deprecated-api -- the only require() hook available without a loader flag
+		require.extensions[extension] = (module, filename) => {
+			const { outputText } = ts.transpileModule(readFileSync(filename, 'utf8'), {
+				compilerOptions: {
+					esModuleInterop: true,
+					inlineSourceMap: true,
+					module: ts.ModuleKind.CommonJS,
+					target: ts.ScriptTarget.ES2022,
+				},
+				fileName: filename,
+			});
+			(module as NodeJS.Module & { _compile(code: string, filename: string): void })._compile(outputText, filename);
+		};
+	}
+
+	registered = true;
+}
@@ -1,24 +1,59 @@
-import type { AddUndefinedToPossiblyUndefinedPropertiesOfInterface } from 'discord-api-types/utils/internals.js';
+import type { _AddUndefinedToPossiblyUndefinedPropertiesOfInterface as AddUndefinedToPossiblyUndefinedPropertiesOfInterface } from 'discord-api-types/utils/internals.js';
 import {
-	type APIApplicationCommand,
 	type APIApplicationCommandOption,
 	ApplicationCommandOptionType,
-	ApplicationCommandType,
-	type RESTPostAPIApplicationCommandsJSONBody,
 	type APIApplicationCommandSubcommandOption,
 	type APIApplicationCommandChannelOption,
 	type APIApplicationCommandStringOption,
 	type APIApplicationCommandIntegerOption,
 	type APIApplicationCommandNumberOption,
-	type APIApplicationCommandOptionChoice,
+	type APIApplicationCommandPermission,
+	ApplicationIntegrationType,
+	InteractionContextType,
 } from 'discord-api-types/v10';
-import { default as isEqual } from 'fast-deep-equal';
 
 export type APIApplicationCommandChoicesOption =
 	| APIApplicationCommandIntegerOption
 	| APIApplicationCommandNumberOption
 	| APIApplicationCommandStringOption;
 
+/**
+ * The installation contexts a global command is available in when none are set
+ */
+export const DefaultIntegrationTypes = [ApplicationIntegrationType.GuildInstall];
+
+/**
+ * The interaction contexts a global command can be used in when none are set
+ */
+export const DefaultContexts = [
+	InteractionContextType.Guild,
+	InteractionContextType.BotDM,
+	InteractionContextType.PrivateChannel,
+];
+
+interface CommandAvailability {
+	contexts?: InteractionContextType[] | null | undefined;
+	integration_types?: ApplicationIntegrationType[] | undefined;
+}
+
+/**
+ * Gets the installation contexts of a command, sorted and with discords default applied
+ *
+ * @param command - The command received from discord or the command definition
+ */
+export function getIntegrationTypes(command: CommandAvailability) {
+	return [...(command.integration_types ?? DefaultIntegrationTypes)].sort((first, second) => first - second);
+}
+
+/**
+ * Gets the interaction contexts of a command, sorted and with discords default applied
+ *
+ * @param command - The command received from discord or the command definition
+ */
+export function getContexts(command: CommandAvailability) {
+	return [...(command.contexts ?? DefaultContexts)].sort((first, second) => first - second);
+}
+
 export function isChoicesOption(
 	option: AddUndefinedToPossiblyUndefinedPropertiesOfInterface<APIApplicationCommandOption>,
 ): option is APIApplicationCommandChoicesOption {
@@ -50,95 +85,28 @@ export function isNumericalOption(
 	return option.type === ApplicationCommandOptionType.Integer || option.type === ApplicationCommandOptionType.Number;
 }
 
-export function optionEquals(
-	existing: APIApplicationCommandOption,
-	option: AddUndefinedToPossiblyUndefinedPropertiesOfInterface<APIApplicationCommandOption>,
+/**
+ * Checks whether two lists of command permission overwrites are the same, regardless of their order
+ *
+ * @param existing - The permission overwrites received from discord
+ * @param permissions - The configured permission overwrites
+ */
+export function permissionsEqual(
+	existing: APIApplicationCommandPermission[],
+	permissions: APIApplicationCommandPermission[],
 ) {
-	if (
-		option.name !== existing.name ||
-		option.type !== existing.type ||
-		option.description !== existing.description ||
-		(option.required ?? false) !== (existing.required ?? false) ||
-		!isEqual(existing.name_localizations ?? {}, option.name_localizations ?? {}) ||
-		!isEqual(existing.description_localizations ?? {}, option.description_localizations ?? {})
-	) {
-		return false;
-	}
-
-	if (isChoicesOption(existing) && isChoicesOption(option)) {
-		if (existing.autocomplete !== option.autocomplete) return false;
-		const existingChoices = (existing as APIApplicationCommandChoicesOption & { autocomplete?: false }).choices;
-		const optionChoices = (option as APIApplicationCommandChoicesOption & { autocomplete?: false }).choices;
-		if (existingChoices?.length !== optionChoices?.length) return false;
-		if (existingChoices && optionChoices) {
-			for (const choice of existingChoices) {
-				const foundChoice = (optionChoices as APIApplicationCommandOptionChoice[]).find(
-					(optChoice) => optChoice.name === choice.name,
-				);
-				if (!foundChoice || foundChoice.value !== choice.value) return false;
-			}
-		}
-	}
-
-	if (isSubcommandOption(existing) && isSubcommandOption(option)) {
-		if (existing.options?.length !== option.options?.length) return false;
-		if (existing.options && option.options) {
-			// eslint-disable-next-line @typescript-eslint/no-use-before-define
-			return optionsEqual(existing.options, option.options);
-		}
-	}
-
-	if (isChannelOption(existing) && isChannelOption(option)) {
-		if (existing.channel_types?.length !== option.channel_types?.length) return false;
-		if (existing.channel_types && option.channel_types) {
-			for (const type of existing.channel_types) {
-				if (!option.channel_types.includes(type)) return false;
-			}
-		}
-	}
-
-	// eslint-disable-next-line sonarjs/prefer-single-boolean-return
-	if (
-		isNumericalOption(existing) &&
-		isNumericalOption(option) &&
-		(existing.min_value !== option.min_value || existing.max_value !== option.max_value)
-	)
-		return false;
-
-	return true;
-}
-
-export function optionsEqual(
-	existing: APIApplicationCommandOption[],
-	options: AddUndefinedToPossiblyUndefinedPropertiesOfInterface<APIApplicationCommandOption>[],
-) {
-	if (existing.length !== options.length) return false;
-	for (const option of existing) {
-		const foundOption = options.find((opt) => opt.name === option.name);
-		if (!foundOption || !optionEquals(option, foundOption)) return false;
-	}
-
-	return true;
+	return (
+		existing.length === permissions.length &&
+		permissions.every((permission) =>
+			existing.some(
+				(overwrite) =>
+					overwrite.id === permission.id &&
+					overwrite.type === permission.type &&
+					overwrite.permission === permission.permission,
+			),
+		)
+	);
 }
 
-export function commandEquals(existing: APIApplicationCommand, command: RESTPostAPIApplicationCommandsJSONBody) {
-	if (
-		command.name !== existing.name ||
-		('description' in command && command.description !== existing.description) ||
-		// Discord API defaults type to chat input
-		(command.type ?? ApplicationCommandType.ChatInput) !== existing.type ||
-		command.options?.length !== existing.options?.length ||
-		command.default_member_permissions !== existing.default_member_permissions ||
-		(existing.guild_id === undefined && (command.dm_permission ?? true) !== existing.dm_permission) ||
-		!isEqual(existing.name_localizations ?? {}, command.name_localizations ?? {}) ||
-		!isEqual(existing.description_localizations ?? {}, command.description_localizations ?? {})
-	) {
-		return false;
-	}
-
-	if (command.options && existing.options) {
-		return optionsEqual(existing.options, command.options);
-	}
-
-	return true;
-}
+// Command equality and patches are derived from the diff, they are still exported here for existing imports
+export { commandEquals, getCommandPatch, optionEquals, optionsEqual } from './Diff.js';
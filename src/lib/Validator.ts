@@ -0,0 +1,347 @@
+import type { _AddUndefinedToPossiblyUndefinedPropertiesOfInterface as AddUndefinedToPossiblyUndefinedPropertiesOfInterface } from 'discord-api-types/utils/internals.js';
+import {
+	type APIApplicationCommandOption,
+	type APIApplicationCommandOptionChoice,
+	ApplicationCommandOptionType,
+	ApplicationCommandType,
+	EntryPointCommandHandlerType,
+	type RESTPostAPIApplicationCommandsJSONBody,
+	type RESTPostAPIChatInputApplicationCommandsJSONBody,
+} from 'discord-api-types/v10';
+import {
+	isChoicesOption,
+	isNumericalOption,
+	isSubcommandOption,
+	type APIApplicationCommandChoicesOption,
+} from './Util.js';
+
+/**
+ * The documented limits discord enforces on application command definitions
+ */
+export const CommandLimits = {
+	ChoiceCount: 25,
+	ChoiceNameLength: 100,
+	ChoiceValueLength: 100,
+	DescriptionLength: 100,
+	NameLength: 32,
+	OptionCount: 25,
+	StringOptionLength: 6_000,
+	TotalLength: 4_000,
+} as const;
+
+const ChatInputNameRegex = /^[\p{L}\p{N}\p{sc=Deva}\p{sc=Thai}'_-]+$/u;
+
+/**
+ * A single problem found in a command definition
+ */
+export interface ValidationError {
+	/**
+	 * The name of the command the problem was found in
+	 */
+	command: string;
+	/**
+	 * A description of the problem
+	 */
+	message: string;
+	/**
+	 * The path to the invalid value within the command definition (e.g. `options[0].choices[2].name`),
+	 * empty if the problem concerns the entire command
+	 */
+	path: string;
+	/**
+	 * The type of the command the problem was found in
+	 */
+	type: ApplicationCommandType;
+}
+
+type ErrorReporter = (path: string, message: string) => void;
+
+type Localizations = Record<string, string | null | undefined> | null | undefined;
+
+type OptionDefinition = AddUndefinedToPossiblyUndefinedPropertiesOfInterface<APIApplicationCommandOption>;
+
+function validateLength(report: ErrorReporter, value: unknown, path: string, min: number, max: number) {
+	if (typeof value !== 'string') {
+		report(path, 'Must be a string');
+	} else if (value.length < min || value.length > max) {
+		report(path, `Must be between ${min} and ${max} characters (is ${value.length})`);
+	}
+}
+
+function validateChatInputName(report: ErrorReporter, name: unknown, path: string) {
+	validateLength(report, name, path, 1, CommandLimits.NameLength);
+	if (typeof name !== 'string') return;
+	if (!ChatInputNameRegex.test(name)) {
+		report(path, 'Must only contain letters, numbers, dashes, underscores and apostrophes (no spaces)');
+	} else if (name !== name.toLowerCase()) {
+		report(path, 'Must be lowercase');
+	}
+}
+
+function validateLocalizations(
+	localizations: Localizations,
+	path: string,
+	validator: (value: unknown, path: string) => void,
+) {
+	if (!localizations) return;
+	for (const [locale, value] of Object.entries(localizations)) {
+		if (value !== null && value !== undefined) validator(value, `${path}.${locale}`);
+	}
+}
+
+function validateChoices(report: ErrorReporter, option: APIApplicationCommandChoicesOption, path: string) {
+	const choices = (option as { choices?: APIApplicationCommandOptionChoice[] }).choices;
+	if (!choices?.length) return;
+	if (option.autocomplete) report(`${path}.choices`, 'Cannot be used alongside autocomplete');
+	if (choices.length > CommandLimits.ChoiceCount) {
+		report(`${path}.choices`, `Must contain at most ${CommandLimits.ChoiceCount} choices (has ${choices.length})`);
+	}
+
+	const validateName = (value: unknown, valuePath: string) =>
+		validateLength(report, value, valuePath, 1, CommandLimits.ChoiceNameLength);
+	const names = new Set<string>();
+	for (const [index, choice] of choices.entries()) {
+		const choicePath = `${path}.choices[${index}]`;
+		validateName(choice.name, `${choicePath}.name`);
+		validateLocalizations(choice.name_localizations, `${choicePath}.name_localizations`, validateName);
+		if (names.has(choice.name)) report(`${choicePath}.name`, `Duplicate choice name ${choice.name}`);
+		names.add(choice.name);
+		if (option.type === ApplicationCommandOptionType.String) {
+			validateLength(report, choice.value, `${choicePath}.value`, 1, CommandLimits.ChoiceValueLength);
+		} else if (typeof choice.value !== 'number') {
+			report(`${choicePath}.value`, 'Must be a number');
+		} else if (option.type === ApplicationCommandOptionType.Integer && !Number.isInteger(choice.value)) {
+			report(`${choicePath}.value`, 'Must be an integer');
+		}
+	}
+}
+
+function validateOption(report: ErrorReporter, option: OptionDefinition, path: string) {
+	validateChatInputName(report, option.name, `${path}.name`);
+	validateLocalizations(option.name_localizations, `${path}.name_localizations`, (value, valuePath) =>
+		validateChatInputName(report, value, valuePath),
+	);
+	validateLength(report, option.description, `${path}.description`, 1, CommandLimits.DescriptionLength);
+	validateLocalizations(option.description_localizations, `${path}.description_localizations`, (value, valuePath) =>
+		validateLength(report, value, valuePath, 1, CommandLimits.DescriptionLength),
+	);
+
+	if (isSubcommandOption(option)) {
+		validateOptions(report, option.options, `${path}.options`, option.type);
+		return;
+	}
+
+	if (isChoicesOption(option)) validateChoices(report, option, path);
+	if (
+		isNumericalOption(option) &&
+		(option.min_value ?? Number.NEGATIVE_INFINITY) > (option.max_value ?? Number.POSITIVE_INFINITY)
+	) {
+		report(`${path}.min_value`, 'Must not be greater than max_value');
+	}
+
+	if (option.type === ApplicationCommandOptionType.String) {
+		if (
+			option.min_length !== undefined &&
+			(option.min_length < 0 || option.min_length > CommandLimits.StringOptionLength)
+		) {
+			report(`${path}.min_length`, `Must be between 0 and ${CommandLimits.StringOptionLength}`);
+		}
+
+		if (
+			option.max_length !== undefined &&
+			(option.max_length < 1 || option.max_length > CommandLimits.StringOptionLength)
+		) {
+			report(`${path}.max_length`, `Must be between 1 and ${CommandLimits.StringOptionLength}`);
+		}
+
+		if ((option.min_length ?? 0) > (option.max_length ?? CommandLimits.StringOptionLength)) {
+			report(`${path}.min_length`, 'Must not be greater than max_length');
+		}
+	}
+}
+
+/**
+ * Validates a list of options, either the top level options of a command or the options of a subcommand (group)
+ *
+ * @param report - The function to report errors with
+ * @param options - The options to validate
+ * @param path - The path to the options
+ * @param parentType - The type of the subcommand (group) containing the options, if any
+ */
+function validateOptions(
+	report: ErrorReporter,
+	options: OptionDefinition[] | undefined,
+	path: string,
+	parentType?: ApplicationCommandOptionType,
+) {
+	if (!options?.length) return;
+	if (options.length > CommandLimits.OptionCount) {
+		report(path, `Must contain at most ${CommandLimits.OptionCount} options (has ${options.length})`);
+	}
+
+	const subcommands = options.filter((option) => isSubcommandOption(option));
+	if (parentType === ApplicationCommandOptionType.SubcommandGroup) {
+		if (options.some((option) => option.type !== ApplicationCommandOptionType.Subcommand)) {
+			report(path, 'Subcommand groups can only contain subcommands');
+		}
+	} else if (parentType === ApplicationCommandOptionType.Subcommand) {
+		if (subcommands.length) report(path, 'Subcommands cannot contain subcommands or subcommand groups');
+	} else if (subcommands.length && subcommands.length !== options.length) {
+		report(path, 'Subcommands and subcommand groups cannot be mixed with other options');
+	}
+
+	const names = new Set<string>();
+	let hasOptional = false;
+	for (const [index, option] of options.entries()) {
+		const optionPath = `${path}[${index}]`;
+		if (names.has(option.name)) report(`${optionPath}.name`, `Duplicate option name ${option.name}`);
+		names.add(option.name);
+		if (!isSubcommandOption(option)) {
+			if (option.required && hasOptional) {
+				report(`${optionPath}.required`, 'Required options must be placed before optional options');
+			}
+
+			if (!option.required) hasOptional = true;
+		}
+
+		validateOption(report, option, optionPath);
+	}
+}
+
+function getLocalized(value: string | undefined, localizations: Localizations, locale?: string) {
+	return (locale ? localizations?.[locale] : null) ?? value ?? '';
+}
+
+function countOptionCharacters(options: OptionDefinition[] | undefined, locale?: string): number {
+	let total = 0;
+	for (const option of options ?? []) {
+		total += getLocalized(option.name, option.name_localizations, locale).length;
+		total += getLocalized(option.description, option.description_localizations, locale).length;
+		if (isSubcommandOption(option)) {
+			total += countOptionCharacters(option.options, locale);
+		} else if (isChoicesOption(option)) {
+			for (const choice of (option as { choices?: APIApplicationCommandOptionChoice[] }).choices ?? []) {
+				total += getLocalized(choice.name, choice.name_localizations, locale).length;
+				total += String(choice.value).length;
+			}
+		}
+	}
+
+	return total;
+}
+
+function collectLocales(localizations: Localizations, locales: Set<string>) {
+	for (const locale of Object.keys(localizations ?? {})) locales.add(locale);
+}
+
+function collectOptionLocales(options: OptionDefinition[] | undefined, locales: Set<string>) {
+	for (const option of options ?? []) {
+		collectLocales(option.name_localizations, locales);
+		collectLocales(option.description_localizations, locales);
+		if (isSubcommandOption(option)) {
+			collectOptionLocales(option.options, locales);
+		} else if (isChoicesOption(option)) {
+			for (const choice of (option as { choices?: APIApplicationCommandOptionChoice[] }).choices ?? []) {
+				collectLocales(choice.name_localizations, locales);
+			}
+		}
+	}
+}
+
+/**
+ * Counts the characters of a chat input command that count towards the total size limit, which is the combined length
+ * of all names, descriptions and choice values. When localized, the largest total of any locale is used
+ *
+ * @param command - The command to measure
+ */
+export function getCommandLength(command: RESTPostAPIChatInputApplicationCommandsJSONBody): number {
+	const locales = new Set<string>();
+	collectLocales(command.name_localizations, locales);
+	collectLocales(command.description_localizations, locales);
+	collectOptionLocales(command.options, locales);
+	let max = 0;
+	for (const locale of [undefined, ...locales]) {
+		const total =
+			getLocalized(command.name, command.name_localizations, locale).length +
+			getLocalized(command.description, command.description_localizations, locale).length +
+			countOptionCharacters(command.options, locale);
+		if (total > max) max = total;
+	}
+
+	return max;
+}
+
+function validateChatInputCommand(report: ErrorReporter, command: RESTPostAPIChatInputApplicationCommandsJSONBody) {
+	validateChatInputName(report, command.name, 'name');
+	validateLocalizations(command.name_localizations, 'name_localizations', (value, path) =>
+		validateChatInputName(report, value, path),
+	);
+	validateLength(report, command.description, 'description', 1, CommandLimits.DescriptionLength);
+	validateLocalizations(command.description_localizations, 'description_localizations', (value, path) =>
+		validateLength(report, value, path, 1, CommandLimits.DescriptionLength),
+	);
+	validateOptions(report, command.options, 'options');
+	const length = getCommandLength(command);
+	if (length > CommandLimits.TotalLength) {
+		report(
+			'',
+			`The combined length of all names, descriptions and choice values must be at most ${CommandLimits.TotalLength} characters (is ${length})`,
+		);
+	}
+}
+
+/**
+ * Validates a command definition against the limits enforced by discord, without calling the API
+ *
+ * @param command - The command definition to validate
+ * @returns The problems found in the definition, empty if it is valid
+ */
+export function validateCommand(command: RESTPostAPIApplicationCommandsJSONBody): ValidationError[] {
+	const type = command.type ?? ApplicationCommandType.ChatInput;
+	const errors: ValidationError[] = [];
+	const report: ErrorReporter = (path, message) => errors.push({ command: command.name, message, path, type });
+
+	if (type === ApplicationCommandType.ChatInput) {
+		validateChatInputCommand(report, command as RESTPostAPIChatInputApplicationCommandsJSONBody);
+	} else if (type === ApplicationCommandType.User || type === ApplicationCommandType.Message) {
+		validateLength(report, command.name, 'name', 1, CommandLimits.NameLength);
+		validateLocalizations(command.name_localizations, 'name_localizations', (value, path) =>
+			validateLength(report, value, path, 1, CommandLimits.NameLength),
+		);
+		if ('description' in command && command.description) {
+			report('description', 'Context menu commands cannot have a description');
+		}
+
+		if ('options' in command && command.options?.length) report('options', 'Context menu commands cannot have options');
+	} else if (type === ApplicationCommandType.PrimaryEntryPoint) {
+		validateLength(report, command.name, 'name', 1, CommandLimits.NameLength);
+		validateLocalizations(command.name_localizations, 'name_localizations', (value, path) =>
+			validateLength(report, value, path, 1, CommandLimits.NameLength),
+		);
+		if ('description' in command) {
+			validateLength(report, command.description, 'description', 1, CommandLimits.DescriptionLength);
+		}
+
+		validateLocalizations(command.description_localizations, 'description_localizations', (value, path) =>
+			validateLength(report, value, path, 1, CommandLimits.DescriptionLength),
+		);
+		if ('options' in command && command.options?.length) report('options', 'Entry point commands cannot have options');
+		if (command.handler !== undefined && !Object.values(EntryPointCommandHandlerType).includes(command.handler)) {
+			report('handler', `Unknown handler type ${command.handler as number}`);
+		}
+	} else {
+		report('type', `Unknown command type ${type as number}`);
+	}
+
+	return errors;
+}
+
+/**
+ * Validates a list of command definitions against the limits enforced by discord, without calling the API
+ *
+ * @param commands - The command definitions to validate
+ * @returns The problems found in all the definitions, empty if they are all valid
+ */
+export function validateCommands(commands: RESTPostAPIApplicationCommandsJSONBody[]): ValidationError[] {
+	return commands.flatMap((command) => validateCommand(command));
+}